@@ -0,0 +1,242 @@
+# Companion script of juliadoc-mcp. It lets the server run its lookups inside
+# this Julia session, so get-doc, get-source and the other tools see the code
+# as it is now: packages as Revise has updated them, and definitions in Main.
+#
+#     include("/path/to/juliadoc-mcp/julia/JuliaDocSession.jl")
+#     JuliaDocSession.start()
+#
+# `juliadoc-mcp --session-script` prints the path of this file. Start the
+# server with --attach (or "session": { "attach": true } in its config file).
+#
+# The session listens on a Unix socket (a named pipe on Windows) and writes a
+# random token to a file only the current user can read; the server must send
+# that token before anything else. Requests use the server's worker protocol:
+#
+#   handshake: "juliadoc <token> <prelude length> <env length>\n<prelude><env JSON>"
+#   request:   "<id> <code length> <args length>\n<code><args JSON>"
+#   response:  "<id> <ok|error|ready|stderr> <stdout length> <stderr length>\n<stdout><stderr>"
+#
+# The prelude is the server's JuliaDocMCP module, so the helpers always match
+# the server version. Requests run one at a time, with stdout, stderr and
+# logging redirected while they run.
+module JuliaDocSession
+
+using Sockets
+using Logging: ConsoleLogger, with_logger
+using Random: RandomDevice
+
+export start, stop
+
+default_dir() = joinpath(first(DEPOT_PATH), "juliadoc")
+
+default_socket() = Sys.iswindows() ? raw"\\.\pipe\juliadoc-session" : joinpath(default_dir(), "session.sock")
+
+default_token_file() = joinpath(default_dir(), "session.token")
+
+mutable struct Session
+  server::Sockets.PipeServer
+  path::String
+  token_file::String
+  token::String
+  # JuliaDocMCP as sent by the last server that connected
+  prelude::Union{Module,Nothing}
+  prelude_hash::UInt
+end
+
+const ACTIVE = Ref{Union{Session,Nothing}}(nothing)
+
+# Held while a request runs: redirecting stdout and stderr affects the whole
+# process
+const REQUEST_LOCK = ReentrantLock()
+
+const EXIT_HOOK = Ref(false)
+
+"""
+    start(; path, token_file)
+
+Listen for juliadoc-mcp on `path` (default `~/.julia/juliadoc/session.sock`, or
+the `juliadoc-session` named pipe on Windows) and write a new token to
+`token_file` (default `~/.julia/juliadoc/session.token`). Replaces a previous
+`start` of this session.
+"""
+function start(; path::AbstractString=default_socket(), token_file::AbstractString=default_token_file())
+  stop()
+  if !Sys.iswindows()
+    mkpath(dirname(path))
+    if ispath(path)
+      in_use = try
+        close(connect(path))
+        true
+      catch
+        false
+      end
+      in_use && error("Another Julia session is listening on $path")
+      rm(path)
+    end
+  end
+  token = bytes2hex(rand(RandomDevice(), UInt8, 32))
+  mkpath(dirname(token_file))
+  touch(token_file)
+  chmod(token_file, 0o600)
+  write(token_file, token)
+
+  session = Session(listen(path), path, token_file, token, nothing, UInt(0))
+  ACTIVE[] = session
+  @async accept_loop(session)
+  if !EXIT_HOOK[]
+    atexit(stop)
+    EXIT_HOOK[] = true
+  end
+  @info "juliadoc-mcp can attach to this session" path token_file
+  return nothing
+end
+
+"""
+    stop()
+
+Stop listening and delete the token file. Connected servers fall back to
+their own Julia processes.
+"""
+function stop()
+  session = ACTIVE[]
+  session === nothing && return nothing
+  ACTIVE[] = nothing
+  close(session.server)
+  rm(session.token_file; force=true)
+  Sys.iswindows() || rm(session.path; force=true)
+  return nothing
+end
+
+function accept_loop(session::Session)
+  while isopen(session.server)
+    client = try
+      accept(session.server)
+    catch e
+      isopen(session.server) || break
+      @warn "juliadoc-mcp: accepting a connection failed" exception=e
+      continue
+    end
+    @async serve(session, client)
+  end
+end
+
+# Constant-time comparison, so the token cannot be guessed byte by byte
+function secure_equals(a::AbstractString, b::AbstractString)
+  x, y = codeunits(a), codeunits(b)
+  length(x) == length(y) || return false
+  difference = 0x00
+  for i in 1:length(x)
+    difference |= x[i] ⊻ y[i]
+  end
+  return difference == 0x00
+end
+
+function respond(io, io_lock, id, status, out, err)
+  lock(io_lock) do
+    write(io, string(id, " ", status, " ", sizeof(out), " ", sizeof(err), "\n"), out, err)
+    flush(io)
+  end
+end
+
+# Check the token and load the server's prelude. Returns the environment
+# variables requests run with, or nothing when the server was refused.
+function handshake(session::Session, io, io_lock)
+  header = split(readline(io))
+  if length(header) != 4 || header[1] != "juliadoc" || !secure_equals(header[2], session.token)
+    respond(io, io_lock, 0, "error", "Invalid juliadoc-mcp session token", "")
+    return nothing
+  end
+  prelude = String(read(io, parse(Int, header[3])))
+  env_json = String(read(io, parse(Int, header[4])))
+  try
+    if session.prelude === nothing || session.prelude_hash != hash(prelude)
+      container = Module(:JuliaDocSessionPrelude)
+      Base.include_string(container, prelude, "juliadoc-prelude")
+      session.prelude = getfield(container, :JuliaDocMCP)
+      session.prelude_hash = hash(prelude)
+    end
+    env = Base.invokelatest(getfield(session.prelude, :parse_json), env_json)
+    respond(io, io_lock, 0, "ready", "", "")
+    return [string(name) => string(value) for (name, value) in env]
+  catch e
+    respond(io, io_lock, 0, "error", sprint(showerror, e), "")
+    return nothing
+  end
+end
+
+function serve(session::Session, io)
+  io_lock = ReentrantLock()
+  try
+    env = handshake(session, io, io_lock)
+    env === nothing && return
+    while !eof(io)
+      header = readline(io)
+      isempty(header) && continue
+      id, code_len, args_len = parse.(Int, split(header))
+      code = String(read(io, code_len))
+      args_json = String(read(io, args_len))
+      status, out, err = lock(REQUEST_LOCK) do
+        withenv(env...) do
+          run_request(session.prelude, io, io_lock, id, code, args_json)
+        end
+      end
+      respond(io, io_lock, id, status, out, err)
+    end
+  catch e
+    # A server that timed out or was cancelled drops its connection
+    e isa Base.IOError || e isa EOFError ||
+      @warn "juliadoc-mcp: connection failed" exception=(e, catch_backtrace())
+  finally
+    close(io)
+  end
+end
+
+# Evaluate a request in a fresh module, like a worker of the server does,
+# after letting Revise pick up edited files. Returns status, stdout and stderr;
+# stderr lines are also forwarded while the request runs.
+function run_request(prelude::Module, io, io_lock, id, code, args_json)
+  out_path, out_io = mktemp()
+  err_pipe = Pipe()
+  Base.link_pipe!(err_pipe; reader_supports_async=true, writer_supports_async=true)
+  err_buf = IOBuffer()
+  forwarder = @async while !eof(err_pipe)
+    line = readline(err_pipe; keep=true)
+    write(err_buf, line)
+    try
+      respond(io, io_lock, id, "stderr", line, "")
+    catch
+      # The server went away; the response is dropped as well
+    end
+  end
+  status = "ok"
+  message = ""
+  try
+    redirect_stdout(out_io) do
+      redirect_stderr(err_pipe.in) do
+        with_logger(ConsoleLogger(err_pipe.in)) do
+          if isdefined(Main, :Revise)
+            Base.invokelatest(getfield(Main, :Revise).revise)
+          end
+          mod = Module(:JuliaDocRequest)
+          Core.eval(mod, :(const JuliaDocMCP = $prelude))
+          Core.eval(mod, :(const args = $(Base.invokelatest(getfield(prelude, :parse_json), args_json))))
+          Base.include_string(mod, code, "juliadoc-request")
+        end
+      end
+    end
+  catch e
+    status = "error"
+    backtrace = catch_backtrace()
+    message = sprint((out, e, bt) -> Base.invokelatest(getfield(prelude, :report_error), out, e, bt), e, backtrace)
+  finally
+    close(out_io)
+    close(err_pipe.in)
+    wait(forwarder)
+  end
+  out = status == "ok" ? read(out_path, String) : message
+  err = String(take!(err_buf))
+  rm(out_path; force=true)
+  return status, out, err
+end
+
+end # module JuliaDocSession
@@ -0,0 +1,255 @@
+import { createHash } from "crypto";
+import {
+  existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, unlinkSync, utimesSync, writeFileSync,
+} from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import { log } from "./logger.js";
+
+// Directory for files that survive restarts, following the XDG convention
+export function cacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "juliadoc-mcp");
+}
+
+// Key identifying an environment's docs: they only change when the Julia
+// version, the project or its resolved manifest changes
+export function environmentKey(juliaVersion: string, project: string | null, manifest: string | null): string {
+  return createHash("sha256")
+    .update(`${juliaVersion}\0${project ?? ""}\0${hashFiles(manifest)}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Hash of the contents of some files; missing files hash as empty
+export function hashFiles(...files: (string | null)[]): string {
+  const hash = createHash("sha256");
+  for (const file of files) {
+    hash.update(file && existsSync(file) ? readFileSync(file) : "").update("\0");
+  }
+  return hash.digest("hex");
+}
+
+// What a cache namespace was created for, stored next to its entries
+export interface EnvironmentLabel {
+  julia_version: string;
+  project: string | null;
+}
+
+export interface CacheLimits {
+  maxBytes: number;
+  maxEntries: number;
+}
+
+export interface CacheStats {
+  directory: string;
+  entries: number;
+  bytes: number;
+  max_entries: number;
+  max_bytes: number;
+  hits: number;
+  misses: number;
+  environments: (EnvironmentLabel & { key: string; entries: number; bytes: number })[];
+}
+
+interface EntryInfo {
+  namespace: string;
+  bytes: number;
+}
+
+const ENTRY_FILE = /^[0-9a-f]{32}\.json$/;
+const LABEL_FILE = "environment.json";
+
+// Tool results persisted under <cacheDir>/results/<environment key>/. Entries
+// never expire by time: a changed environment simply has a new key, and the
+// namespaces it replaces are deleted. Total size and entry count are bounded
+// by evicting the least recently used entries.
+export class DiskCache {
+  // Entry files in least- to most-recently-used order
+  private entries = new Map<string, EntryInfo>();
+  private totalBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private registered = new Set<string>();
+  private root: string;
+
+  constructor(directory: string, private limits: CacheLimits) {
+    this.root = join(directory, "results");
+    this.scan();
+  }
+
+  // Rebuild the LRU order from file modification times, which are bumped on
+  // every read
+  private scan(): void {
+    if (!existsSync(this.root)) return;
+    const found: { file: string; namespace: string; bytes: number; used: number }[] = [];
+    for (const namespace of readdirSync(this.root)) {
+      const dir = join(this.root, namespace);
+      if (!statSync(dir).isDirectory()) continue;
+      for (const name of readdirSync(dir)) {
+        if (!ENTRY_FILE.test(name)) continue;
+        const stat = statSync(join(dir, name));
+        found.push({ file: join(dir, name), namespace, bytes: stat.size, used: stat.mtimeMs });
+      }
+    }
+    found.sort((a, b) => a.used - b.used);
+    for (const { file, namespace, bytes } of found) {
+      this.entries.set(file, { namespace, bytes });
+      this.totalBytes += bytes;
+    }
+    log.info(`Cache: ${this.entries.size} entries (${this.totalBytes} bytes) in ${this.root}`);
+  }
+
+  namespaceDir(namespace: string): string {
+    return join(this.root, namespace);
+  }
+
+  // Record which environment a namespace belongs to, and drop namespaces of
+  // the same Julia version and project whose manifest has since changed. An
+  // unwritable cache directory leaves calls uncached rather than failing them.
+  register(namespace: string, label: EnvironmentLabel): void {
+    if (this.registered.has(namespace)) return;
+    this.registered.add(namespace);
+    try {
+      mkdirSync(this.namespaceDir(namespace), { recursive: true });
+      writeFileSync(join(this.namespaceDir(namespace), LABEL_FILE), JSON.stringify(label));
+
+      for (const other of readdirSync(this.root)) {
+        if (other === namespace) continue;
+        const existing = this.label(other);
+        if (existing && existing.julia_version === label.julia_version && existing.project === label.project) {
+          log.info(`Cache: environment ${label.project ?? "(default)"} changed, dropping ${other}`);
+          this.clear(other);
+        }
+      }
+    } catch (error) {
+      log.warning(`Cache: failed to register ${this.namespaceDir(namespace)}`, error);
+    }
+  }
+
+  private label(namespace: string): EnvironmentLabel | null {
+    try {
+      return JSON.parse(readFileSync(join(this.namespaceDir(namespace), LABEL_FILE), "utf8"));
+    } catch {
+      return null;
+    }
+  }
+
+  private entryFile(namespace: string, key: string): string {
+    const hash = createHash("sha256").update(key).digest("hex").slice(0, 32);
+    return join(this.namespaceDir(namespace), `${hash}.json`);
+  }
+
+  get<T>(namespace: string, key: string): T | undefined {
+    const file = this.entryFile(namespace, key);
+    const info = this.entries.get(file);
+    if (!info) {
+      this.misses++;
+      return undefined;
+    }
+    try {
+      const stored = JSON.parse(readFileSync(file, "utf8")) as { key: string; value: T };
+      if (stored.key !== key) {
+        this.misses++;
+        return undefined;
+      }
+      // Mark as most recently used, in memory and on disk
+      this.entries.delete(file);
+      this.entries.set(file, info);
+      const now = new Date();
+      utimesSync(file, now, now);
+      this.hits++;
+      return stored.value;
+    } catch (error) {
+      log.warning(`Cache: dropping unreadable entry ${file}`, error);
+      this.remove(file);
+      this.misses++;
+      return undefined;
+    }
+  }
+
+  set<T>(namespace: string, key: string, value: T): void {
+    const file = this.entryFile(namespace, key);
+    const data = JSON.stringify({ key, value });
+    try {
+      mkdirSync(this.namespaceDir(namespace), { recursive: true });
+      writeFileSync(file, data);
+    } catch (error) {
+      log.warning(`Cache: failed to write ${file}`, error);
+      return;
+    }
+    this.forget(file);
+    const bytes = Buffer.byteLength(data);
+    this.entries.set(file, { namespace, bytes });
+    this.totalBytes += bytes;
+    this.evict();
+  }
+
+  private evict(): void {
+    for (const file of this.entries.keys()) {
+      if (this.totalBytes <= this.limits.maxBytes && this.entries.size <= this.limits.maxEntries) break;
+      this.remove(file);
+    }
+  }
+
+  private forget(file: string): void {
+    const info = this.entries.get(file);
+    if (info) {
+      this.totalBytes -= info.bytes;
+      this.entries.delete(file);
+    }
+  }
+
+  private remove(file: string): void {
+    this.forget(file);
+    try {
+      unlinkSync(file);
+    } catch {
+      // Already gone
+    }
+  }
+
+  // Delete one namespace (results, search index and label), or everything.
+  // Returns the number of result entries removed.
+  clear(namespace?: string): number {
+    let removed = 0;
+    for (const [file, info] of [...this.entries]) {
+      if (namespace === undefined || info.namespace === namespace) {
+        this.forget(file);
+        removed++;
+      }
+    }
+    const target = namespace === undefined ? this.root : this.namespaceDir(namespace);
+    rmSync(target, { recursive: true, force: true });
+    if (namespace === undefined) {
+      this.registered.clear();
+    } else {
+      this.registered.delete(namespace);
+    }
+    return removed;
+  }
+
+  stats(): CacheStats {
+    const environments = new Map<string, { entries: number; bytes: number }>();
+    for (const info of this.entries.values()) {
+      const totals = environments.get(info.namespace) ?? { entries: 0, bytes: 0 };
+      totals.entries++;
+      totals.bytes += info.bytes;
+      environments.set(info.namespace, totals);
+    }
+    return {
+      directory: this.root,
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      max_entries: this.limits.maxEntries,
+      max_bytes: this.limits.maxBytes,
+      hits: this.hits,
+      misses: this.misses,
+      environments: [...environments].map(([key, totals]) => ({
+        key,
+        ...(this.label(key) ?? { julia_version: "unknown", project: null }),
+        ...totals,
+      })),
+    };
+  }
+}
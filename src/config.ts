@@ -0,0 +1,246 @@
+import { existsSync, readFileSync } from "fs";
+import { delimiter, resolve } from "path";
+import { parseArgs } from "util";
+import { z } from "zod";
+import { LOG_LEVELS, log } from "./logger.js";
+import { SESSION_SCRIPT_PATH } from "./session.js";
+
+// Server configuration, merged from (lowest precedence first) built-in
+// defaults, a JSON config file, environment variables and command-line flags.
+// The config file is the --config flag, JULIADOC_CONFIG, or
+// juliadoc.config.json in the working directory.
+
+const seconds = z.number().positive();
+
+export const configSchema = z.object({
+  julia: z.object({
+    path: z.string().optional()
+      .describe("Julia executable; juliaup, common install locations and PATH are searched when unset"),
+    workers: z.number().int().min(0).default(2)
+      .describe("Persistent Julia processes per environment; 0 starts a process per call"),
+    max_environments: z.number().int().min(1).default(3)
+      .describe("Environments whose workers may run at the same time"),
+  }).strict().default({}),
+  projects: z.object({
+    default: z.string().optional().describe("Environment used when a call has no `project` argument"),
+    workspace: z.array(z.string()).optional()
+      .describe("Directories list-environments searches (default: the working directory)"),
+  }).strict().default({}),
+  cache: z.object({
+    dir: z.string().optional().describe("Cache directory (default: $XDG_CACHE_HOME/juliadoc-mcp)"),
+    max_mb: z.number().positive().default(100),
+    max_entries: z.number().int().positive().default(5000),
+  }).strict().default({}),
+  timeouts: z.object({
+    default: seconds.default(300).describe("Seconds a Julia call may run"),
+    tools: z.record(seconds).default({}).describe("Per-tool overrides, e.g. { \"search-docs\": 900 }"),
+  }).strict().default({}),
+  char_budget: z.number().int().min(1000).default(40000)
+    .describe("Default maximum characters of a tool result's text"),
+  tools: z.object({
+    enabled: z.array(z.string()).optional()
+      .describe("Only register these tools (run-snippet and check-doctests included when listed)"),
+    disabled: z.array(z.string()).default([]),
+  }).strict().default({}),
+  packages: z.object({
+    allow: z.array(z.string()).default([]).describe("When non-empty, the only packages tools may load"),
+    deny: z.array(z.string()).default([]).describe("Packages tools may not load"),
+  }).strict().default({}),
+  run_snippet: z.object({
+    enabled: z.boolean().default(false),
+    timeout_seconds: seconds.default(30),
+    memory_mb: z.number().positive().default(2048),
+    max_output_kb: z.number().positive().default(64),
+  }).strict().default({}),
+  session: z.object({
+    attach: z.boolean().default(false)
+      .describe("Run calls on the default environment in a Julia session running julia/JuliaDocSession.jl"),
+    socket: z.string().optional()
+      .describe("Socket or named pipe of the session (default: ~/.julia/juliadoc/session.sock)"),
+    token_file: z.string().optional()
+      .describe("File with the session's token (default: ~/.julia/juliadoc/session.token)"),
+  }).strict().default({}),
+  logging: z.object({
+    level: z.enum(LOG_LEVELS).default("info"),
+    format: z.enum(["text", "json"]).default("text"),
+    mcp: z.boolean().default(false).describe("Also send log records to the client as MCP logging notifications"),
+  }).strict().default({}),
+}).strict();
+
+export type Config = z.infer<typeof configSchema>;
+
+type Layer = Record<string, unknown>;
+
+const USAGE = `Usage: juliadoc-mcp [options]
+
+Options (each overrides the config file and environment variables):
+  --config <file>             JSON config file (default: JULIADOC_CONFIG or ./juliadoc.config.json)
+  --julia <path>              Julia executable
+  --project <dir>             default environment
+  --workspace <dir>           directory searched by list-environments (repeatable)
+  --workers <n>               Julia workers per environment, 0 for a process per call
+  --max-environments <n>      environments whose workers may run at once
+  --cache-dir <dir>           cache directory
+  --cache-max-mb <n>          cache size limit
+  --cache-max-entries <n>     cache entry limit
+  --timeout <seconds>         time limit of a Julia call
+  --tool-timeout <tool=sec>   time limit of one tool (repeatable)
+  --char-budget <n>           default maximum characters of a result
+  --enable-tool <name>        only register the listed tools (repeatable)
+  --disable-tool <name>       do not register a tool (repeatable)
+  --allow-package <name>      only let tools load the listed packages (repeatable)
+  --deny-package <name>       do not let tools load a package (repeatable)
+  --enable-run-snippet        register run-snippet and check-doctests
+  --attach                    run calls on the default environment in a running Julia session
+  --session-socket <path>     socket or named pipe of that session
+  --session-token-file <file> token file of that session
+  --session-script            print the path of the script the session includes, and exit
+  --log-level <level>         debug, info, warning or error
+  --log-format <format>       text or json
+  --log-mcp                   also send logs to the client as MCP notifications
+  --help                      show this help
+`;
+
+// Per-tool timeouts written as "get-doc=60,search-docs=900"
+export function parseToolTimeouts(entries: string[], source: string): Record<string, number> {
+  const timeouts: Record<string, number> = {};
+  for (const entry of entries.map(part => part.trim()).filter(Boolean)) {
+    const [tool, value] = entry.split("=").map(part => part.trim());
+    if (!tool || !(Number(value) > 0)) {
+      log.warning(`Ignoring invalid ${source} entry '${entry}'`);
+      continue;
+    }
+    timeouts[tool] = Number(value);
+  }
+  return timeouts;
+}
+
+const number = (value: string | undefined) => value === undefined || value === "" ? undefined : Number(value);
+const list = (value: string | undefined, separator = ",") =>
+  value ? value.split(separator).map(part => part.trim()).filter(Boolean) : undefined;
+
+// Settings given as environment variables
+function environmentLayer(env: NodeJS.ProcessEnv): Layer {
+  const enabled = (value: string | undefined) => ["1", "true"].includes(value ?? "") ? true : undefined;
+  return {
+    julia: { path: env.JULIA_PATH || undefined, workers: number(env.JULIA_WORKERS), max_environments: number(env.JULIADOC_MAX_ENVIRONMENTS) },
+    projects: { default: env.JULIA_PROJECT || undefined, workspace: list(env.JULIADOC_WORKSPACE, delimiter) },
+    cache: { max_mb: number(env.JULIADOC_CACHE_MAX_MB), max_entries: number(env.JULIADOC_CACHE_MAX_ENTRIES) },
+    timeouts: {
+      default: number(env.JULIADOC_TIMEOUT),
+      tools: env.JULIADOC_TOOL_TIMEOUTS ? parseToolTimeouts(env.JULIADOC_TOOL_TIMEOUTS.split(","), "JULIADOC_TOOL_TIMEOUTS") : undefined,
+    },
+    char_budget: number(env.JULIADOC_CHAR_BUDGET),
+    packages: { allow: list(env.JULIADOC_ALLOW_PACKAGES), deny: list(env.JULIADOC_DENY_PACKAGES) },
+    run_snippet: {
+      enabled: enabled(env.JULIADOC_ENABLE_RUN_SNIPPET),
+      timeout_seconds: number(env.JULIADOC_SNIPPET_TIMEOUT),
+      memory_mb: number(env.JULIADOC_SNIPPET_MEMORY_MB),
+      max_output_kb: number(env.JULIADOC_SNIPPET_MAX_OUTPUT_KB),
+    },
+    session: {
+      attach: enabled(env.JULIADOC_ATTACH),
+      socket: env.JULIADOC_SESSION_SOCKET || undefined,
+      token_file: env.JULIADOC_SESSION_TOKEN_FILE || undefined,
+    },
+    logging: { level: env.JULIADOC_LOG_LEVEL || undefined },
+  };
+}
+
+function flagLayer(values: ReturnType<typeof parseFlags>["values"]): Layer {
+  const many = (value: string[] | undefined) => value && value.length > 0 ? value : undefined;
+  return {
+    julia: { path: values.julia, workers: number(values.workers), max_environments: number(values["max-environments"]) },
+    projects: { default: values.project, workspace: many(values.workspace) },
+    cache: { dir: values["cache-dir"], max_mb: number(values["cache-max-mb"]), max_entries: number(values["cache-max-entries"]) },
+    timeouts: {
+      default: number(values.timeout),
+      tools: values["tool-timeout"] ? parseToolTimeouts(values["tool-timeout"], "--tool-timeout") : undefined,
+    },
+    char_budget: number(values["char-budget"]),
+    tools: { enabled: many(values["enable-tool"]), disabled: many(values["disable-tool"]) },
+    packages: { allow: many(values["allow-package"]), deny: many(values["deny-package"]) },
+    run_snippet: { enabled: values["enable-run-snippet"] },
+    session: { attach: values.attach, socket: values["session-socket"], token_file: values["session-token-file"] },
+    logging: { level: values["log-level"], format: values["log-format"], mcp: values["log-mcp"] },
+  };
+}
+
+function parseFlags(argv: string[]) {
+  const text = { type: "string" } as const;
+  const repeated = { type: "string", multiple: true } as const;
+  const flag = { type: "boolean" } as const;
+  return parseArgs({
+    args: argv,
+    options: {
+      config: text, julia: text, project: text, workspace: repeated, workers: text, "max-environments": text,
+      "cache-dir": text, "cache-max-mb": text, "cache-max-entries": text, timeout: text, "tool-timeout": repeated,
+      "char-budget": text, "enable-tool": repeated, "disable-tool": repeated, "allow-package": repeated,
+      "deny-package": repeated, "enable-run-snippet": flag, "log-level": text, "log-format": text, "log-mcp": flag,
+      attach: flag, "session-socket": text, "session-token-file": text, "session-script": flag, help: flag,
+    },
+    strict: true,
+    allowPositionals: false,
+  });
+}
+
+// Layers merged key by key; undefined values leave the lower layer's value
+function merge(base: Layer, override: Layer): Layer {
+  const result: Layer = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    const current = result[key];
+    result[key] = isPlainObject(value) && isPlainObject(current) ? merge(current, value) : value;
+  }
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Layer {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => ` - ${issue.path.join(".") || "(root)"}: ${issue.message}`).join("\n");
+}
+
+// The configuration for this process. Exits after printing the usage for
+// --help; throws on unknown flags and invalid settings.
+export function loadConfig(argv = process.argv.slice(2), env = process.env): Config {
+  let flags: ReturnType<typeof parseFlags>;
+  try {
+    flags = parseFlags(argv);
+  } catch (error) {
+    throw new Error(`${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+  }
+  if (flags.values.help) {
+    process.stdout.write(USAGE);
+    process.exit(0);
+  }
+  if (flags.values["session-script"]) {
+    process.stdout.write(SESSION_SCRIPT_PATH + "\n");
+    process.exit(0);
+  }
+
+  let file: Layer = {};
+  const explicit = flags.values.config ?? env.JULIADOC_CONFIG;
+  const path = explicit ? resolve(explicit) : existsSync("juliadoc.config.json") ? resolve("juliadoc.config.json") : null;
+  if (path) {
+    try {
+      file = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+      throw new Error(`Cannot read config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const parsed = configSchema.safeParse(file);
+    if (!parsed.success) {
+      throw new Error(`Invalid config file ${path}:\n${describeIssues(parsed.error)}`);
+    }
+    log.info(`Using config file ${path}`);
+  }
+
+  const merged = merge(merge(file, environmentLayer(env)), flagLayer(flags.values));
+  const config = configSchema.safeParse(merged);
+  if (!config.success) {
+    throw new Error(`Invalid configuration (from environment variables or flags):\n${describeIssues(config.error)}`);
+  }
+  return config.data;
+}
@@ -0,0 +1,97 @@
+// Documentation coverage of a package's API: every exported or public name
+// with its kind and docstrings, flagged where the documentation falls short.
+// The package is loaded like for list-package, so the report sees the
+// docstrings as Julia does, including those added by other modules.
+
+export const API_REPORT_CODE = `
+  module_obj = JuliaDocMCP.resolve_module(args["path"])  # Loads the package if needed
+  # Exported names, and on Julia 1.11 and later those declared public
+  api = Set(names(module_obj))
+  is_exported(n) = isdefined(Base, :isexported) ? Base.isexported(module_obj, n) : n in api
+
+  # Docstrings of a name by signature, from every module documenting it
+  function docstrings(n)
+    binding = Base.Docs.Binding(module_obj, n)
+    found = Pair{Any,String}[]
+    for mod in Base.Docs.modules
+      multidoc = get(Base.Docs.meta(mod), binding, nothing)
+      multidoc === nothing && continue
+      for sig in multidoc.order
+        push!(found, sig => string(Base.Docs.parsedoc(multidoc.docs[sig])))
+      end
+    end
+    return found
+  end
+
+  # Argument and keyword names of the methods a docstring's signature covers;
+  # a docstring without signature covers them all
+  function argument_names(f, sig)
+    found = Set{String}()
+    for m in methods(f)
+      sig === Union{} || Base.tuple_type_tail(m.sig) <: sig || continue
+      for name in [Base.method_argnames(m)[2:end]; Base.kwarg_decl(m)]
+        s = replace(string(name), "..." => "")
+        # Unnamed arguments, and __source__ and __module__ of macros
+        isempty(s) || startswith(s, "#") || startswith(s, "__") || push!(found, s)
+      end
+    end
+    return found
+  end
+
+  is_identifier_char(c) = isletter(c) || isdigit(c) || c == '_' || c == '!'
+
+  # Whether a docstring mentions a name as a whole identifier
+  function mentions(text, name)
+    i = firstindex(text)
+    while (r = findnext(name, text, i)) !== nothing
+      before = first(r) == firstindex(text) ? ' ' : text[prevind(text, first(r))]
+      after = last(r) == lastindex(text) ? ' ' : text[nextind(text, last(r))]
+      !is_identifier_char(before) && !is_identifier_char(after) && return true
+      i = nextind(text, first(r))
+    end
+    return false
+  end
+
+  # A docstring's signature as a call, e.g. f(::Int64, ::Any)
+  function signature(n, sig)
+    sig === Union{} && return string(n)
+    t = Base.unwrap_unionall(sig)
+    t isa DataType || return string(n, " ", sig)
+    return string(n, "(", join(["::" * string(p) for p in t.parameters], ", "), ")")
+  end
+
+  symbols = []
+  for n in sort(names(module_obj, all=true))
+    (startswith(string(n), "#") || !isdefined(module_obj, n)) && continue
+    in_api = n in api
+    docs = docstrings(n)
+    # Other unexported names are not part of the report
+    in_api || !isempty(docs) || continue
+    obj = getfield(module_obj, n)
+    kind = JuliaDocMCP.symbol_kind(obj, n)
+    flags = String[]
+    unmentioned = String[]
+    in_api && isempty(docs) && push!(flags, "undocumented")
+    if kind == "function" || kind == "macro"
+      for (sig, text) in docs
+        arguments = argument_names(obj, sig)
+        if !isempty(arguments) && !any(a -> mentions(text, a), arguments)
+          push!(unmentioned, signature(n, sig))
+        end
+      end
+      isempty(unmentioned) || push!(flags, "arguments_not_mentioned")
+    end
+    !in_api && !isempty(docs) && push!(flags, "documented_unexported")
+    push!(symbols, (
+      name = string(n),
+      kind = kind,
+      exported = in_api && is_exported(n),
+      public = in_api,
+      documented = !isempty(docs),
+      docstrings = length(docs),
+      flags = flags,
+      unmentioned = unmentioned,
+    ))
+  end
+  JuliaDocMCP.emit(Dict("module" => string(module_obj), "symbols" => symbols))
+`;
@@ -0,0 +1,410 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import { JULIA_PRELUDE } from "./prelude.js";
+import { CheckDoctestsResult } from "./results.js";
+import { SandboxExit, SnippetLimits, runSandboxed } from "./sandbox.js";
+
+// Doctests in docstrings, checked the way Documenter does: `jldoctest` blocks
+// (and optionally plain `julia>` examples) are split into steps here, run in
+// sandbox modules of a sandboxed Julia process (see sandbox.ts), and their
+// output compared with the expected text after filters are applied.
+
+export interface DoctestStep {
+  input: string;
+  expected: string;
+}
+
+export interface DoctestBlock {
+  binding: string;
+  name: string | null;
+  source: "jldoctest" | "example";
+  kind: "repl" | "script";
+  // Keyword arguments after the `;` of the info string, parsed by Julia
+  options: string;
+  code: string;
+  steps: DoctestStep[];
+  // Why the block cannot be run, if it is malformed
+  problem: string | null;
+}
+
+// Collects the docstrings of a symbol, or of every binding in a module and
+// its submodules, in a stable order
+export const COLLECT_DOCSTRINGS_CODE = `
+  docstring_text(d) = isempty(d.text) ? string(Base.Docs.parsedoc(d)) : join(map(string, d.text))
+  docs = []
+  # In definition order; the docs dictionary has none
+  add_docs!(binding, multidoc) = for sig in multidoc.order
+    push!(docs, (binding = string(binding.mod, ".", binding.var), text = docstring_text(multidoc.docs[sig])))
+  end
+
+  parent, name, obj = JuliaDocMCP.resolve_binding(args["path"])
+  if obj isa Module
+    function collect_module!(seen, mod)
+      mod in seen && return
+      push!(seen, mod)
+      for (binding, multidoc) in Base.Docs.meta(mod)
+        binding isa Base.Docs.Binding && add_docs!(binding, multidoc)
+      end
+      for n in names(mod, all=true)
+        (isdefined(mod, n) && !Base.isdeprecated(mod, n)) || continue
+        sub = getfield(mod, n)
+        sub isa Module && sub !== mod && parentmodule(sub) === mod && collect_module!(seen, sub)
+      end
+    end
+    collect_module!(Set{Module}(), obj)
+  else
+    binding = Base.Docs.Binding(parent, name)
+    multidoc = get(Base.Docs.meta(binding.mod), binding, nothing)
+    multidoc === nothing || add_docs!(binding, multidoc)
+  end
+  # Stable, so that the docstrings of a binding stay in definition order
+  JuliaDocMCP.emit(sort!(docs; by = d -> d.binding, alg = MergeSort))
+`;
+
+// Runs doctest blocks. Each block gets a fresh sandbox module, except that
+// blocks sharing a name share one, as in Documenter. Sandboxes start with
+// `using` the documented package and the tool-level setup code. Per-block
+// setup, output and filter options are parsed from the info string; filters
+// are applied to both the expected and the actual output. The result of each
+// block is appended to results.jsonl as soon as it is known, so the blocks
+// before one that kills the process keep theirs.
+const RUN_DOCTESTS_SCRIPT = JULIA_PRELUDE + `
+  import Logging
+  const args = JuliaDocMCP.parse_json(read(stdin, String))
+  # In the working directory, whatever directory the doctests change to. The
+  # output of the running step is held to the output limit while it grows.
+  const OUTPUT_FILE = joinpath(pwd(), "output.txt")
+  const RESULTS_FILE = joinpath(pwd(), "results.jsonl")
+
+  function captured(f)
+    io = open(OUTPUT_FILE, "w")
+    value, err = nothing, nothing
+    try
+      value = redirect_stdout(io) do
+        redirect_stderr(io) do
+          Logging.with_logger(f, Logging.ConsoleLogger(io))
+        end
+      end
+    catch e
+      err = e isa LoadError ? e.error : e
+    finally
+      close(io)
+    end
+    return value, err, read(OUTPUT_FILE, String)
+  end
+
+  is_literal(ex, macroname) = Meta.isexpr(ex, :macrocall) && ex.args[1] === macroname &&
+    all(a -> a isa Union{String,LineNumberNode,Nothing}, ex.args[2:end])
+
+  # Filter values Documenter accepts: regexes, regex => replacement pairs and
+  # vectors of them. Only literals are evaluated.
+  function filter_values(ex)
+    Meta.isexpr(ex, :vect) && return reduce(vcat, [filter_values(a) for a in ex.args]; init=Any[])
+    if Meta.isexpr(ex, :call, 3) && ex.args[1] === :(=>)
+      replacement = is_literal(ex.args[3], Symbol("@s_str")) ? Core.eval(Main, ex.args[3]) : ex.args[3]
+      replacement isa AbstractString ||
+        throw(JuliaDocMCP.ValidationError("Unsupported doctest filter replacement: $(ex.args[3])"))
+      return Any[only(filter_values(ex.args[2])) => replacement]
+    end
+    is_literal(ex, Symbol("@r_str")) && return Any[Core.eval(Main, ex)]
+    ex isa String && return Any[Regex(ex)]
+    throw(JuliaDocMCP.ValidationError("Unsupported doctest filter: $ex"))
+  end
+
+  function block_options(kwargs)
+    setup, output, filters = nothing, true, Any[]
+    isempty(strip(kwargs)) && return setup, output, filters
+    ex = Meta.parse("(" * kwargs * ",)")
+    for arg in (Meta.isexpr(ex, :tuple) ? ex.args : Any[ex])
+      Meta.isexpr(arg, :(=), 2) || continue
+      key, value = arg.args
+      if key === :setup
+        setup = Meta.isexpr(value, :quote) ? value.args[1] : value
+      elseif key === :output
+        output = value === true
+      elseif key === :filter
+        filters = filter_values(value)
+      end
+    end
+    return setup, output, filters
+  end
+
+  apply_filters(text, filters) =
+    foldl((t, f) -> f isa Pair ? replace(t, f) : replace(t, f => ""), filters; init=text)
+
+  global_filters = Any[Regex(f) for f in args["filters"]]
+  sandboxes = Dict{String,Module}()
+  function new_sandbox()
+    mod = Module(:DocTestSandbox)
+    Core.eval(mod, :(eval(x) = Core.eval($mod, x)))
+    Core.eval(mod, :(include(x) = Base.include($mod, x)))
+    args["package"] === nothing || Core.eval(mod, Expr(:using, Expr(:., Symbol(args["package"]))))
+    args["setup"] === nothing || Base.include_string(mod, args["setup"], "doctest-setup")
+    return mod
+  end
+
+  # Output of one step as the REPL would show it: printed text, then the
+  # value (unless suppressed by a trailing semicolon) or the error
+  function run_step(mod, input, show_value)
+    value, err, printed = captured() do
+      v = nothing
+      for ex in Meta.parseall(input; filename="doctest").args
+        ex isa LineNumberNode && continue
+        v = Core.eval(mod, ex)
+      end
+      v
+    end
+    buf = IOBuffer()
+    print(buf, printed)
+    if err !== nothing
+      print(buf, "ERROR: ")
+      showerror(buf, err)
+    elseif value !== nothing
+      Core.eval(mod, Expr(:(=), :ans, QuoteNode(value)))
+      show_value && show(IOContext(buf, :limit => true), MIME"text/plain"(), value)
+    end
+    return String(take!(buf)), err !== nothing
+  end
+
+  function run_block(block)
+    result = Dict{String,Any}("error" => nothing, "output" => true, "steps" => [])
+    try
+      setup, output, filters = block_options(block["options"])
+      filters = vcat(global_filters, filters)
+      result["output"] = output
+      mod = block["group"] === nothing ? new_sandbox() : get!(new_sandbox, sandboxes, block["group"])
+      setup === nothing || Core.eval(mod, setup)
+      for step in block["steps"]
+        show_value = block["kind"] != "repl" || !endswith(rstrip(step["input"]), ";")
+        actual, threw = run_step(mod, step["input"], show_value)
+        push!(result["steps"], (
+          expected = apply_filters(step["expected"], filters),
+          actual = apply_filters(actual, filters),
+          threw = threw,
+        ))
+      end
+    catch e
+      result["error"] = sprint(showerror, e)
+    end
+    return result
+  end
+
+  for block in args["blocks"]
+    result = run_block(block)
+    open(RESULTS_FILE, "a") do io
+      JuliaDocMCP.write_json(io, result)
+      println(io)
+    end
+  end
+`;
+
+// Output of a Julia-side run of one block
+export interface DoctestRun {
+  error: string | null;
+  output: boolean;
+  steps: { expected: string; actual: string; threw: boolean }[];
+}
+
+// What RUN_DOCTESTS_SCRIPT runs: the runnable blocks of one call, and the
+// package, setup code and filters every block starts from
+export interface DoctestInput {
+  package: string | null;
+  setup: string | null;
+  filters: string[];
+  blocks: { group: string | null; kind: DoctestBlock["kind"]; options: string; steps: DoctestStep[] }[];
+}
+
+// Why blocks have no result when the process ended early
+function stoppedReason(exit: SandboxExit): string {
+  switch (exit.killedFor) {
+    case "timeout": return "the doctest process timed out";
+    case "memory_limit": return "the doctest process exceeded the memory limit";
+    case "output_limit": return "the block printed more than the output limit";
+    default: return `Julia exited with code ${exit.exitCode}: ${exit.processOutput.trim().slice(-2000)}`;
+  }
+}
+
+// Run doctest blocks in a sandboxed process with the run-snippet limits; the
+// output limit applies to each step. A block that stops the process gets the
+// reason as its error, and the blocks after it are not run.
+export function runDoctests(
+  juliaPath: string,
+  projectPath: string | null,
+  input: DoctestInput,
+  limits: SnippetLimits,
+  signal?: AbortSignal
+): Promise<DoctestRun[]> {
+  return runSandboxed(juliaPath, projectPath, RUN_DOCTESTS_SCRIPT, input, ["output.txt"], limits, signal, exit => {
+    const file = join(exit.dir, "results.jsonl");
+    const runs = existsSync(file) ?
+      readFileSync(file, "utf8").split("\n").filter(Boolean).map(line => JSON.parse(line) as DoctestRun) :
+      [];
+    return input.blocks.map((_, i) => runs[i] ?? {
+      error: i === runs.length ? stoppedReason(exit) : "not run after an earlier block stopped the doctest process",
+      output: true,
+      steps: [],
+    });
+  });
+}
+
+const FENCE = /^(\s*)(`{3,})\s*(.*)$/;
+const PROMPT = "julia>";
+const CONTINUATION = " ".repeat(PROMPT.length + 1);
+
+// Doctest blocks of one docstring
+export function extractDoctests(binding: string, docstring: string, includeExamples: boolean): DoctestBlock[] {
+  const blocks: DoctestBlock[] = [];
+  const lines = docstring.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(FENCE);
+    if (!open) continue;
+    const [, indent, ticks, info] = open;
+    const body: string[] = [];
+    let j = i + 1;
+    for (; j < lines.length; j++) {
+      if (lines[j].trim().startsWith(ticks) && lines[j].trim().replace(/`/g, "") === "") break;
+      body.push(lines[j].startsWith(indent) ? lines[j].slice(indent.length) : lines[j].trimStart());
+    }
+    i = j;
+
+    const language = info.split(/[\s;]/)[0];
+    const isRepl = body.some(line => line.startsWith(PROMPT));
+    let name: string | null = null;
+    let options = "";
+    if (language === "jldoctest") {
+      const rest = info.slice(language.length);
+      const semicolon = rest.indexOf(";");
+      name = (semicolon < 0 ? rest : rest.slice(0, semicolon)).trim() || null;
+      options = semicolon < 0 ? "" : rest.slice(semicolon + 1).trim();
+    } else if (!(includeExamples && isRepl && (language === "julia" || language === "julia-repl"))) {
+      continue;
+    }
+
+    const block: DoctestBlock = {
+      binding,
+      name,
+      source: language === "jldoctest" ? "jldoctest" : "example",
+      kind: isRepl ? "repl" : "script",
+      options,
+      code: body.join("\n"),
+      steps: [],
+      problem: null,
+    };
+    if (isRepl) {
+      block.steps = replSteps(body);
+    } else {
+      // Script doctests: code, a "# output" line, then the expected output
+      const marker = body.findIndex(line => /^# output\s*$/.test(line));
+      if (marker >= 0) {
+        block.steps = [{ input: body.slice(0, marker).join("\n"), expected: body.slice(marker + 1).join("\n") }];
+      } else if (/\boutput\s*=\s*false\b/.test(options)) {
+        block.steps = [{ input: body.join("\n"), expected: "" }];
+      } else {
+        block.problem = "Script doctest has no '# output' line";
+      }
+    }
+    blocks.push(block);
+  }
+  return blocks;
+}
+
+// Split a REPL transcript into inputs (the prompt line plus lines indented to
+// line up with it) and the output shown after each
+function replSteps(body: string[]): DoctestStep[] {
+  const steps: { input: string[]; output: string[] }[] = [];
+  for (const line of body) {
+    const current = steps[steps.length - 1];
+    if (line.startsWith(PROMPT)) {
+      steps.push({ input: [line.slice(PROMPT.length).replace(/^ /, "")], output: [] });
+    } else if (current && current.output.length === 0 && line.startsWith(CONTINUATION)) {
+      current.input.push(line.slice(CONTINUATION.length));
+    } else if (current) {
+      current.output.push(line);
+    }
+  }
+  return steps.map(step => ({ input: step.input.join("\n"), expected: step.output.join("\n") }));
+}
+
+// Comparison form of an output: trailing whitespace and surrounding blank
+// lines removed, and stacktraces after an error dropped as Documenter does
+export function normalizeOutput(text: string): string {
+  let normalized = text.split("\n").map(line => line.trimEnd()).join("\n").replace(/^\n+|\n+$/g, "");
+  if (/^ERROR: /m.test(normalized)) {
+    normalized = normalized.replace(/\nStacktrace:[\s\S]*$/, "").trimEnd();
+  }
+  return normalized;
+}
+
+// Transcript of a block for display: prompts and inputs for REPL blocks,
+// followed by each step's output
+export function transcript(block: DoctestBlock, outputs: string[]): string {
+  if (block.kind === "script") return outputs.join("\n");
+  return block.steps.map((step, i) => {
+    const input = step.input.split("\n").map((line, n) => (n === 0 ? `${PROMPT} ` : CONTINUATION) + line).join("\n");
+    return outputs[i] ? `${input}\n${outputs[i]}` : input;
+  }).join("\n\n");
+}
+
+// Line diff of expected against actual output ("-" expected, "+" actual)
+export function lineDiff(expected: string, actual: string): string {
+  const a = expected.split("\n");
+  const b = actual.split("\n");
+  if (a.length * b.length > 1_000_000) {
+    return [...a.map(line => `- ${line}`), ...b.map(line => `+ ${line}`)].join("\n");
+  }
+  // Longest common subsequence lengths of every pair of suffixes
+  const width = b.length + 1;
+  const common = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i * width + j] = a[i] === b[j] ?
+        common[(i + 1) * width + j + 1] + 1 :
+        Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(`  ${a[i++]}`);
+      j++;
+    } else if (j < b.length && (i === a.length || common[i * width + j + 1] >= common[(i + 1) * width + j])) {
+      lines.push(`+ ${b[j++]}`);
+    } else {
+      lines.push(`- ${a[i++]}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+// Pass/fail of one block from its Julia run (null when it was not run)
+export function checkDoctest(block: DoctestBlock, run: DoctestRun | null): CheckDoctestsResult["blocks"][number] {
+  const base = {
+    binding: block.binding,
+    name: block.name,
+    source: block.source,
+    kind: block.kind,
+    code: block.code,
+    expected: transcript(block, block.steps.map(step => normalizeOutput(step.expected))),
+  };
+  if (block.problem !== null || run === null || run.error !== null) {
+    const message = block.problem ?? (run?.error ? `Could not run: ${run.error}` : "Not run");
+    return { ...base, status: "error", actual: null, diff: null, message };
+  }
+  const expected = run.steps.map(step => normalizeOutput(step.expected));
+  const actual = run.steps.map(step => normalizeOutput(step.actual));
+  const passed = run.output ?
+    expected.every((text, i) => text === actual[i]) :
+    run.steps.every(step => !step.threw);
+  const expectedText = transcript(block, expected);
+  const actualText = transcript(block, actual);
+  return {
+    ...base,
+    expected: expectedText,
+    status: passed ? "passed" : "failed",
+    actual: actualText,
+    diff: passed || !run.output ? null : lineDiff(expectedText, actualText),
+    message: passed || run.output ? null : "Threw an exception (output = false, so output is not compared)",
+  };
+}
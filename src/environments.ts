@@ -0,0 +1,246 @@
+import { existsSync, readdirSync, readFileSync, statSync } from "fs";
+import { homedir } from "os";
+import { delimiter, dirname, join, resolve } from "path";
+import { JuliaWorkerPool } from "./worker.js";
+import { JuliaToolError } from "./errors.js";
+import { log } from "./logger.js";
+import { SearchIndex } from "./search.js";
+import type { JuliaSession } from "./session.js";
+
+const PROJECT_FILES = ["JuliaProject.toml", "Project.toml"];
+const MANIFEST_FILES = ["JuliaManifest.toml", "Manifest.toml"];
+
+// Julia version and active environment, as reported by JuliaDocMCP.environment_info
+export interface EnvironmentInfo {
+  julia_version: string;
+  project: string | null;
+  manifest: string | null;
+}
+
+// A direct dependency of the active project and the names it exports
+export interface EnvironmentPackage {
+  name: string;
+  exports: string[];
+}
+
+// An environment found on disk by discoverEnvironments
+export interface DiscoveredEnvironment {
+  path: string;
+  name: string | null;
+  source: "workspace" | "depot" | "default";
+  has_manifest: boolean;
+}
+
+// Depots from JULIA_DEPOT_PATH, where an empty entry stands for the default
+// ~/.julia as it does in Julia itself
+export function depotPaths(): string[] {
+  const defaultDepot = join(homedir(), ".julia");
+  const configured = process.env.JULIA_DEPOT_PATH;
+  if (!configured) return [defaultDepot];
+  return [...new Set(configured.split(delimiter).map(depot => depot || defaultDepot))];
+}
+
+export function projectFile(dir: string): string | null {
+  const name = PROJECT_FILES.find(file => existsSync(join(dir, file)));
+  return name ? join(dir, name) : null;
+}
+
+export function manifestFile(dir: string): string | null {
+  const name = MANIFEST_FILES.find(file => existsSync(join(dir, file)));
+  return name ? join(dir, name) : null;
+}
+
+// Directory of the nearest Project.toml at or above a file or directory
+export function findProjectDir(path: string): string | null {
+  let dir = statSync(path).isDirectory() ? path : dirname(path);
+  for (;;) {
+    if (projectFile(dir)) return dir;
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+// Turn a `project` argument into a project directory. Accepts a directory, a
+// Project.toml, any file inside a project, or a shared environment (`@name`).
+export function resolveProject(spec: string): string {
+  if (spec.startsWith("@")) {
+    const name = spec.slice(1);
+    for (const depot of depotPaths()) {
+      const dir = join(depot, "environments", name);
+      if (projectFile(dir)) return dir;
+    }
+    throw new JuliaToolError("invalid_argument", `Shared environment ${spec} not found in ${depotPaths().join(", ")}`);
+  }
+  const path = resolve(spec);
+  if (!existsSync(path)) {
+    throw new JuliaToolError("invalid_argument", `Project path does not exist: ${spec}`);
+  }
+  const dir = findProjectDir(path);
+  if (!dir) {
+    throw new JuliaToolError("invalid_argument", `No Project.toml found at or above ${spec}`);
+  }
+  return dir;
+}
+
+// The top-level `name` of a Project.toml, if the project is a package
+export function projectName(file: string): string | null {
+  for (const line of readFileSync(file, "utf8").split("\n")) {
+    if (line.startsWith("[")) break;
+    const match = line.match(/^name\s*=\s*"(.*)"/);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+export function describeEnvironment(dir: string, source: DiscoveredEnvironment["source"]): DiscoveredEnvironment {
+  return {
+    path: dir,
+    name: projectName(projectFile(dir)!),
+    source,
+    has_manifest: manifestFile(dir) !== null,
+  };
+}
+
+const SKIPPED_DIRS = new Set(["node_modules", "build", "dist"]);
+
+// Projects under the workspace roots (depth-limited, skipping hidden and
+// build directories) and shared environments in every depot
+export function discoverEnvironments(roots: string[], maxDepth: number): DiscoveredEnvironment[] {
+  const found = new Map<string, DiscoveredEnvironment>();
+
+  const walk = (dir: string, depth: number) => {
+    if (projectFile(dir) && !found.has(dir)) {
+      found.set(dir, describeEnvironment(dir, "workspace"));
+    }
+    if (depth >= maxDepth) return;
+    let children: string[];
+    try {
+      children = readdirSync(dir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && !entry.name.startsWith(".") && !SKIPPED_DIRS.has(entry.name))
+        .map(entry => join(dir, entry.name));
+    } catch {
+      return; // Unreadable directory
+    }
+    for (const child of children) {
+      walk(child, depth + 1);
+    }
+  };
+  for (const root of roots) {
+    if (existsSync(root)) walk(resolve(root), 0);
+  }
+
+  for (const depot of depotPaths()) {
+    const environments = join(depot, "environments");
+    if (!existsSync(environments)) continue;
+    for (const name of readdirSync(environments)) {
+      const dir = join(environments, name);
+      if (projectFile(dir) && !found.has(dir)) {
+        found.set(dir, describeEnvironment(dir, "depot"));
+      }
+    }
+  }
+  return [...found.values()];
+}
+
+// Everything the server keeps per Julia environment, that is per project and
+// Julia executable. Workers and memoized lookups are never shared between
+// them. The default environment may be attached to a running Julia session,
+// whose state can change at any time.
+export class JuliaEnvironment {
+  info: Promise<EnvironmentInfo> | null = null;
+  searchIndex: { key: string; index: Promise<SearchIndex> } | null = null;
+  packages: Promise<EnvironmentPackage[]> | null = null;
+  lastUsed = Date.now();
+
+  constructor(
+    readonly projectPath: string | null,
+    readonly juliaPath: string,
+    readonly workers: JuliaWorkerPool | null,
+    readonly session: JuliaSession | null = null
+  ) {}
+}
+
+export interface EnvironmentManagerOptions {
+  juliaPath: string;
+  defaultProject: string | null;
+  workers: number;
+  timeoutSeconds: number;
+  // Environments whose workers may stay alive at the same time
+  maxActive: number;
+  // Extra environment variables for the Julia processes
+  env: Record<string, string>;
+  // Running Julia session used for the default environment, if attached
+  session: JuliaSession | null;
+}
+
+// Creates environments on first use and shuts down the workers of the least
+// recently used ones when more than `maxActive` have live workers
+export class EnvironmentManager {
+  private environments = new Map<string, JuliaEnvironment>();
+
+  constructor(private options: EnvironmentManagerOptions) {}
+
+  get defaultProject(): string | null {
+    return this.options.defaultProject;
+  }
+
+  // The environment of a project (default: the default project) run with a
+  // Julia executable (default: the configured one)
+  get(project?: string, juliaPath = this.options.juliaPath): JuliaEnvironment {
+    const projectPath = project ? resolveProject(project) : this.options.defaultProject;
+    const key = `${juliaPath}\0${projectPath ?? ""}`;
+    let env = this.environments.get(key);
+    if (!env) {
+      const workers = this.options.workers > 0 ?
+        new JuliaWorkerPool({
+          juliaPath,
+          projectPath,
+          size: this.options.workers,
+          timeoutSeconds: this.options.timeoutSeconds,
+          env: this.options.env,
+        }) :
+        null;
+      const isDefault = projectPath === this.options.defaultProject && juliaPath === this.options.juliaPath;
+      env = new JuliaEnvironment(projectPath, juliaPath, workers, isDefault ? this.options.session : null);
+      this.environments.set(key, env);
+      log.info(`Using Julia environment ${projectPath ?? "(default)"}` +
+        (juliaPath === this.options.juliaPath ? "" : ` with ${juliaPath}`));
+    }
+    env.lastUsed = Date.now();
+    // On every use: an environment whose workers were stopped starts them again
+    this.evict(env);
+    return env;
+  }
+
+  // Stop the workers of the least recently used idle environments until no
+  // more than maxActive have live workers, counting those `keep` is about to
+  // start
+  private evict(keep: JuliaEnvironment): void {
+    const active = [...this.environments.values()]
+      .filter(env => env.workers && (env === keep || env.workers.running))
+      .sort((a, b) => a.lastUsed - b.lastUsed);
+    let running = active.length;
+    for (const env of active) {
+      if (running <= this.options.maxActive) break;
+      if (env === keep || !env.workers!.idle) continue;
+      log.info(`Stopping workers of ${env.projectPath ?? "(default)"} (least recently used)`);
+      env.workers!.shutdown();
+      running--;
+    }
+  }
+
+  // Drop in-memory search indexes after their cache files were deleted
+  forgetSearchIndexes(env?: JuliaEnvironment): void {
+    for (const candidate of env ? [env] : this.environments.values()) {
+      candidate.searchIndex = null;
+    }
+  }
+
+  shutdown(): void {
+    for (const env of this.environments.values()) {
+      env.workers?.shutdown();
+    }
+    this.options.session?.close();
+  }
+}
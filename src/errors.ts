@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { JuliaEvalError, JuliaTimeoutError, JuliaCancelledError, loadingProgress } from "./worker.js";
+
+// Failed tool calls carry a code, so clients can tell a misspelled name from
+// a package missing in the environment or a broken package without parsing
+// messages. Julia classifies its own failures (JuliaDocMCP.error_info) and
+// reports them on a JULIADOC_ERROR line; the server adds the codes for
+// failures of the Julia process itself.
+export const errorCodeSchema = z.enum([
+  "package_not_in_env",
+  "package_denied",
+  "symbol_undefined",
+  "ambiguous_method",
+  "method_not_found",
+  "load_failed",
+  "invalid_argument",
+  "timeout",
+  "cancelled",
+  "julia_not_found",
+  "julia_error",
+  "tool_error",
+]);
+
+export type ErrorCode = z.infer<typeof errorCodeSchema>;
+
+export const toolErrorSchema = z.object({
+  code: errorCodeSchema,
+  message: z.string(),
+  suggestions: z.array(z.string())
+    .describe("Names that were probably meant, or the candidate method signatures of an ambiguous call"),
+});
+
+export type ToolErrorDetails = z.infer<typeof toolErrorSchema>;
+
+// Key of the error details in the _meta of a failed call's result
+export const ERROR_META_KEY = "juliadoc/error";
+
+export class JuliaToolError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    readonly suggestions: string[] = [],
+    readonly backtrace: string | null = null
+  ) {
+    super(message);
+    this.name = "JuliaToolError";
+  }
+}
+
+// Most backtrace lines worth showing for an unexpected Julia error
+const BACKTRACE_LINES = 20;
+
+// The JuliaToolError described on a JULIADOC_ERROR line of Julia's output
+export function parseJuliaError(output: string): JuliaToolError | null {
+  const marker = "JULIADOC_ERROR:";
+  const line = output.split("\n").reverse().find(l => l.startsWith(marker));
+  if (!line) return null;
+  try {
+    const error = JSON.parse(line.slice(marker.length));
+    const code = errorCodeSchema.safeParse(error.code);
+    return new JuliaToolError(
+      code.success ? code.data : "julia_error",
+      String(error.message),
+      Array.isArray(error.suggestions) ? error.suggestions.map(String) : [],
+      typeof error.backtrace === "string" ? error.backtrace : null
+    );
+  } catch {
+    return null;
+  }
+}
+
+// Classify any failure of a Julia call
+export function toolError(error: unknown): JuliaToolError {
+  if (error instanceof JuliaToolError) return error;
+  if (error instanceof JuliaTimeoutError) return new JuliaToolError("timeout", error.message);
+  if (error instanceof JuliaCancelledError) return new JuliaToolError("cancelled", error.message);
+  if (error instanceof JuliaEvalError) {
+    return parseJuliaError(error.message) ?? new JuliaToolError("julia_error", error.message.trim());
+  }
+  if (error instanceof Error && (error as NodeJS.ErrnoException).code === "ENOENT") {
+    return new JuliaToolError("julia_not_found",
+      "Julia executable not found. Please ensure Julia is installed and in your PATH, or set JULIA_PATH.");
+  }
+  return new JuliaToolError("tool_error", error instanceof Error ? error.message : String(error));
+}
+
+// Text of a failed call: the message, what was probably meant, and for
+// unexpected Julia errors the start of the backtrace
+export function formatToolError(error: JuliaToolError): string {
+  const lines = [`Error (${error.code}): ${error.message}`];
+  if (error.suggestions.length > 0) {
+    lines.push(error.code === "ambiguous_method" || error.code === "method_not_found" ?
+      "Candidate methods:\n" + error.suggestions.map(s => ` - ${s}`).join("\n") :
+      `Did you mean: ${error.suggestions.join(", ")}?`);
+  }
+  if (error.code === "julia_error" && error.backtrace) {
+    const trace = error.backtrace.trim().split("\n");
+    lines.push(trace.slice(0, BACKTRACE_LINES).join("\n") +
+      (trace.length > BACKTRACE_LINES ? `\n  ... ${trace.length - BACKTRACE_LINES} more lines` : ""));
+  }
+  return lines.join("\n");
+}
+
+// Warnings in what a successful call printed to stderr: every log record
+// (┌ ... └ blocks) or other line, without package loading progress
+export function stderrWarnings(stderr: string): string[] {
+  const warnings: string[] = [];
+  let record: string[] | null = null;
+  for (const raw of stderr.split("\n")) {
+    const line = raw.replace(/\x1b\[[0-9;]*m/g, "").trimEnd();
+    if (record) {
+      record.push(line);
+      if (line.startsWith("└")) {
+        warnings.push(record.join("\n"));
+        record = null;
+      }
+    } else if (line.startsWith("┌")) {
+      record = [line];
+    } else if (line.trim() !== "" && loadingProgress(line) === null) {
+      warnings.push(line);
+    }
+  }
+  if (record) warnings.push(record.join("\n"));
+  return [...new Set(warnings)];
+}
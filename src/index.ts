@@ -1,23 +1,63 @@
 #!/usr/bin/env node
 
-// Add immediate logging before any imports or class definitions
-console.error('Process environment at startup:', {
-  argv: process.argv,
-  env: process.env,
-  cwd: process.cwd()
-});
-
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { exec } from "child_process";
 import { promisify } from "util";
 import { readFileSync } from 'fs';
-import { join } from 'path';
+import { delimiter, join } from 'path';
 import { existsSync } from 'fs';
-import { homedir } from 'os';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import {
+  JuliaOutput, JuliaArgs, RunOptions, WorkerUnavailableError, JuliaTimeoutError, runJuliaOnce, loadingProgress,
+} from "./worker.js";
+import {
+  juliaPathSchema, juliaVersionNameSchema, juliaVersionSchema, projectDirSchema, projectSchema, referenceNameSchema, signatureSchema,
+} from "./schemas.js";
+import { parseJuliaResult } from "./prelude.js";
+import {
+  getDocResultSchema, listPackageResultSchema, exploreProjectResultSchema, getSourceResultSchema,
+  searchDocsResultSchema, cacheStatsResultSchema, clearCacheResultSchema, listEnvironmentsResultSchema,
+  typeInfoResultSchema, methodsWithResultSchema, inspectCodeResultSchema, codeViewSchema, runSnippetResultSchema,
+  checkDoctestsResultSchema, listManualResultSchema, getManualPageResultSchema, listJuliaVersionsResultSchema,
+  compareDocsResultSchema, outlineResultSchema, outlineKindSchema, findReferencesResultSchema, referenceKindSchema,
+  apiReportResultSchema,
+  GetDocResult, ListPackageResult, GetSourceResult, SearchDocsResult,
+  CacheStatsResult, ClearCacheResult, ListEnvironmentsResult, TypeInfoResult,
+  MethodsWithResult, InspectCodeResult, CheckDoctestsResult, ListManualResult, GetManualPageResult,
+  ListJuliaVersionsResult, CompareDocsResult, OutlineResult, FindReferencesResult, ApiReportResult,
+  splitDocSections, docSummary, formatDoc, formatPackage, formatProject, formatSource, formatSearch, formatCacheStats,
+  formatEnvironments, formatTypeInfo, formatMethodsWith, formatInspectCode, formatSnippet, formatDoctests, formatManualToc, formatManualPage,
+  formatJuliaVersions, formatCompareDocs, formatOutline, formatReferences, formatApiReport,
+  formatDocMarkdown, formatSourceMarkdown, formatPackageMarkdown,
+} from "./results.js";
+import { SearchIndex, DocEntry, BUILD_INDEX_CODE, loadIndex, saveIndex } from "./search.js";
+import { DiskCache, cacheDir, environmentKey } from "./cache.js";
+import { exploreProject } from "./project.js";
+import { runSnippet, SnippetLimits } from "./sandbox.js";
+import {
+  LOCATE_MANUAL_CODE, RESOLVE_DOCS_CODE, LocatedManual, ResolvedDoc,
+  manualToc, manualPagePath, pageDocsEntries, renderManualPage, resolveRefs, manualSections, pageTitle,
+} from "./manual.js";
+import { API_REPORT_CODE } from "./coverage.js";
+import { OUTLINE_CODE, FIND_REFERENCES_CODE, sourceTree, devDependencies } from "./outline.js";
+import { ResultPager, Paging, pageInfoSchema } from "./paging.js";
+import { JuliaToolError, ToolErrorDetails, ERROR_META_KEY, toolError, formatToolError, stderrWarnings } from "./errors.js";
+import { Config, loadConfig } from "./config.js";
+import { log } from "./logger.js";
+import { JuliaVersions, defaultJuliaPath } from "./versions.js";
+import { JuliaSession, SessionUnavailableError, defaultSessionSocket, defaultSessionTokenFile } from "./session.js";
+import { COLLECT_DOCSTRINGS_CODE, DoctestRun, extractDoctests, checkDoctest, lineDiff, runDoctests } from "./doctests.js";
+import {
+  EnvironmentManager, JuliaEnvironment, EnvironmentInfo, EnvironmentPackage,
+  resolveProject, projectFile, discoverEnvironments, describeEnvironment,
+} from "./environments.js";
 
 // Get the equivalent of __dirname for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -31,543 +71,1883 @@ const packageJson = JSON.parse(
   readFileSync(join(__dirname, '../package.json'), 'utf8')
 );
 
-// Cache implementation to store results and reduce Julia process spawns
-class Cache<T> {
-  private cache = new Map<string, { value: T; timestamp: number }>();
-  private ttl: number;
-
-  constructor(ttlSeconds: number = 300) { // Default 5 minute TTL
-    this.ttl = ttlSeconds * 1000; // Convert to milliseconds
+// Julia path for a juliadoc:// URI, validated like a tool argument
+function resourcePath(variables: Variables, ...names: string[]): string {
+  const path = names
+    .map((name, i) => {
+      const value = variables[name];
+      const segment = decodeURIComponent(Array.isArray(value) ? value[0] : value);
+      // An operator after a module is quoted: juliadoc://doc/Base/+ is Base.:(+)
+      return i > 0 && !/^[\p{L}_@:]/u.test(segment) ? `:(${segment})` : segment;
+    })
+    .join(".");
+  const parsed = juliaPathSchema.safeParse(path);
+  if (!parsed.success) {
+    throw new Error(`Invalid Julia path '${path}': ${parsed.error.issues[0].message}`);
   }
+  return parsed.data;
+}
 
-  get(key: string): T | undefined {
-    const item = this.cache.get(key);
-    if (!item) return undefined;
-    // Check if cache entry has expired
-    if (Date.now() - item.timestamp > this.ttl) {
-      this.cache.delete(key);
-      return undefined;
-    }
-    return item.value;
-  }
+// Options of the get-source tool
+interface SourceOptions {
+  signature?: string;
+  context_lines?: number;
+  max_methods?: number;
+  exclude_external?: boolean;
+}
 
-  set(key: string, value: T): void {
-    this.cache.set(key, { value, timestamp: Date.now() });
-  }
+// Context of the tool call being handled, available to every Julia call it
+// makes: the client's cancellation signal, the tool's timeout, the Julia
+// version it asked for and a sink for stderr lines that turns loading output
+// into progress notifications
+interface ToolCall {
+  tool: string;
+  signal: AbortSignal;
+  timeoutSeconds: number;
+  juliaVersion?: string;
+  onStderr: (line: string) => void;
+  warnings: string[];
+}
+
+// Tools that run code of the caller's choosing; off unless run-snippet is
+// enabled
+const CODE_TOOLS = ["run-snippet", "check-doctests"];
+
+// A successful result with the warnings of its Julia calls added
+function withWarnings(result: CallToolResult, warnings: string[]): CallToolResult {
+  if (result.isError || !result.structuredContent || warnings.length === 0) return result;
+  return {
+    ...result,
+    content: [...result.content, { type: "text", text: "Warnings:\n" + warnings.map(w => `- ${w}`).join("\n") }],
+    structuredContent: { ...result.structuredContent, warnings },
+  };
+}
+
+// Arguments every tool accepts for cutting its result to size
+const budgetInputSchema = {
+  char_budget: z.number().int().min(1000).optional()
+    .describe("Maximum characters of text to return (about 4 characters per token); longer results are paged"),
+  cursor: z.string().optional()
+    .describe("next_cursor of a previous page, passed with otherwise identical arguments, to continue it"),
+};
+
+// Tool result for a failed call, with the classified error in _meta. It is
+// not structured content, which clients check against the tool's output schema
+// even for errors.
+function errorResult(error: unknown) {
+  const failure = toolError(error);
+  const details: ToolErrorDetails = { code: failure.code, message: failure.message, suggestions: failure.suggestions };
+  return {
+    content: [{
+      type: "text" as const,
+      text: formatToolError(failure),
+    }],
+    _meta: { [ERROR_META_KEY]: details },
+    isError: true,
+  };
 }
 
 class JuliaDocServer {
   private server: McpServer;
-  private cache: Cache<string>;
+  private cache: DiskCache;
   private juliaPath: string;
-  private projectPath: string | null;
+  private versions: JuliaVersions;
+  private juliaVariables: Record<string, string>;
+  private environments: EnvironmentManager;
+  private defaultTimeout: number;
+  private toolTimeouts: Map<string, number>;
+  private calls = new AsyncLocalStorage<ToolCall>();
+  private pager = new ResultPager();
+  // Every tool name, registered or disabled
+  private toolNames = new Set<string>();
+  private charBudget: number;
 
-  constructor() {
-    this.server = new McpServer({
-      name: "juliadoc",
-      version: packageJson.version,
-    });
+  constructor(private config: Config) {
+    this.server = new McpServer(
+      { name: "juliadoc", version: packageJson.version },
+      config.logging.mcp ? { capabilities: { logging: {} } } : {}
+    );
+    log.attach(this.server);
 
-    this.cache = new Cache<string>(300);
-    this.juliaPath = this.findJuliaPath();
-    
-    // Log all environment variables for debugging
-    console.error('Environment variables:', {
-      JULIA_PROJECT: process.env.JULIA_PROJECT,
-      JULIA_DEPOT_PATH: process.env.JULIA_DEPOT_PATH,
-      JULIA_LOAD_PATH: process.env.JULIA_LOAD_PATH,
-      PATH: process.env.PATH
+    // Results persist on disk until the environment changes or they are
+    // evicted to stay within the size limits
+    this.cache = new DiskCache(config.cache.dir ?? cacheDir(), {
+      maxBytes: config.cache.max_mb * 1024 * 1024,
+      maxEntries: config.cache.max_entries,
     });
-    
-    // Store project path from environment
-    this.projectPath = process.env.JULIA_PROJECT || null;
-    console.error('Using Julia project path:', this.projectPath);
-    
-    this.verifyJuliaInstallation();
-    this.setupTools();
-  }
+    this.juliaPath = config.julia.path ?? defaultJuliaPath();
+    log.info(`Using Julia at ${this.juliaPath}`);
+    this.versions = new JuliaVersions(this.juliaPath);
+    // The package policy is enforced by JuliaDocMCP.check_package
+    this.juliaVariables = {
+      JULIADOC_ALLOW_PACKAGES: config.packages.allow.join(","),
+      JULIADOC_DENY_PACKAGES: config.packages.deny.join(","),
+    };
 
-  private findJuliaPath(): string {
-    // First check if explicitly set via env var
-    if (process.env.JULIA_PATH) {
-      return process.env.JULIA_PATH;
+    // Default project from the configuration. Values Julia understands but we
+    // cannot resolve on disk (such as "@.") are passed through unchanged.
+    let defaultProject = config.projects.default ?? null;
+    if (defaultProject) {
+      try {
+        defaultProject = resolveProject(defaultProject);
+      } catch {
+        // Leave it to Julia
+      }
     }
+    log.info(`Using Julia project ${defaultProject ?? "(default environment)"}`);
 
-    const home = homedir();
-    const commonPaths = [
-      // Juliaup installation (most common)
-      `${home}/.juliaup/bin/julia`,
-      // Homebrew installation
-      '/opt/homebrew/bin/julia',
-      // Manual installation
-      '/Applications/Julia-1.9.app/Contents/Resources/julia/bin/julia',
-      // System-wide installation
-      '/usr/local/bin/julia'
-    ];
-
-    // Check common installation paths
-    for (const path of commonPaths) {
-      if (existsSync(path)) {
-        console.error(`Found Julia at: ${path}`);
-        return path;
-      }
+    // Persistent workers keep loaded packages in memory between calls;
+    // workers = 0 falls back to spawning `julia -e` for every call. Each
+    // environment selected with the `project` argument gets its own pool.
+    this.defaultTimeout = config.timeouts.default;
+    this.toolTimeouts = new Map(Object.entries(config.timeouts.tools));
+    this.charBudget = config.char_budget;
+    // Calls on the default environment go to the user's Julia session first
+    const session = config.session.attach ? new JuliaSession({
+      socketPath: config.session.socket ?? defaultSessionSocket(),
+      tokenFile: config.session.token_file ?? defaultSessionTokenFile(),
+      timeoutSeconds: this.defaultTimeout,
+      env: this.juliaVariables,
+    }) : null;
+    this.environments = new EnvironmentManager({
+      juliaPath: this.juliaPath,
+      defaultProject,
+      workers: config.julia.workers,
+      timeoutSeconds: this.defaultTimeout,
+      maxActive: config.julia.max_environments,
+      env: this.juliaVariables,
+      session,
+    });
+    log.info(`Using ${config.julia.workers} persistent Julia worker(s) per environment`);
+    if (session) {
+      log.info(`Attaching to the Julia session at ${session.socketPath} when it is running`);
     }
 
-    // Fall back to PATH-based julia
-    console.error('Falling back to Julia from system PATH');
-    return 'julia';
+    this.verifyJuliaInstallation();
+    this.setupTools();
+    const unknown = [...(config.tools.enabled ?? []), ...config.tools.disabled].filter(name => !this.toolNames.has(name));
+    if (unknown.length > 0) {
+      log.warning(`Unknown tools in the configuration: ${unknown.join(", ")}`);
+    }
+    this.setupResources();
   }
 
   private async verifyJuliaInstallation(): Promise<void> {
     try {
       const { stdout } = await execAsync(`${this.juliaPath} --version`);
-      console.error(`Found Julia: ${stdout.trim()}`);
+      log.info(`Found ${stdout.trim()}`);
     } catch (error) {
-      console.error('Failed to find Julia installation:', error);
+      log.error('Failed to find Julia installation', error);
       throw new Error(
         'Julia not found. Please ensure Julia is installed and either:\n' +
         '1. Add Julia to your PATH, or\n' +
-        '2. Set JULIA_PATH environment variable to point to your Julia executable'
+        '2. Point JULIA_PATH, the --julia flag or julia.path in the config file to your Julia executable'
       );
     }
   }
 
-  private async runJuliaCommand(code: string, packageName?: string): Promise<string> {
+  // Run code and return its stdout. Failures are classified (see errors.ts);
+  // anything else the code printed to stderr, besides package loading
+  // progress, is reported as warnings of the tool call.
+  private async runJuliaCommand(env: JuliaEnvironment, code: string, args: JuliaArgs = {}): Promise<string> {
     try {
-      let fullCode = '';
-      
-      // Add package loading if specified
-      if (packageName) {
-        fullCode += `using ${packageName}; `;
+      const { stdout, stderr } = await this.executeJulia(env, code, args);
+      const warnings = stderrWarnings(stderr);
+      if (warnings.length > 0) {
+        log.warning('Julia warnings', warnings);
+        this.calls.getStore()?.warnings.push(...warnings);
       }
+      return stdout;
+    } catch (error) {
+      throw this.failure(error);
+    }
+  }
 
-      // Add the main code
-      fullCode += code;
-      
-      // Properly escape the code for the -e flag
-      // Replace single quotes with '\'' for shell escaping
-      const escapedCode = fullCode.replace(/'/g, "'\\''");
-      
-      // Properly quote the project path if specified
-      const projectFlag = this.projectPath ? 
-        `--project='${this.projectPath.replace(/'/g, "'\\''")}'` : 
-        '';
-      
-      // Construct the full command
-      const command = `${this.juliaPath} ${projectFlag} -e '${escapedCode}'`;
-      
-      console.error(`Executing command: ${command}`);
-      
-      // Execute with explicit environment
-      const { stdout, stderr } = await execAsync(command, {
-        env: {
-          ...process.env,
-          // Ensure JULIA_PROJECT is set in the environment
-          JULIA_PROJECT: this.projectPath || '',
-          // Preserve other important Julia env vars
-          JULIA_DEPOT_PATH: process.env.JULIA_DEPOT_PATH,
-          JULIA_LOAD_PATH: process.env.JULIA_LOAD_PATH,
-          PATH: process.env.PATH,
-        }
-      });
-      
-      console.error('Command output:', stdout, stderr);
-      
+  // Run code that reports its result through JuliaDocMCP.emit
+  private async runJuliaTool<T>(env: JuliaEnvironment, code: string, args: JuliaArgs = {}): Promise<T> {
+    return parseJuliaResult<T>(await this.runJuliaCommand(env, code, args));
+  }
+
+  // Run code that loads many packages at once. Their precompilation output and
+  // warnings on stderr are logged rather than returned with the result.
+  private async runJuliaBatch<T>(env: JuliaEnvironment, code: string, args: JuliaArgs = {}): Promise<T> {
+    try {
+      const { stdout, stderr } = await this.executeJulia(env, code, args);
       if (stderr) {
-        // Run diagnostics when we hit an error to help debug
-        const diagnosticCommand = `${this.juliaPath} ${projectFlag} -e 'println("Active project: ", Base.active_project()); println("DEPOT_PATH: ", DEPOT_PATH); using Pkg; println("Installed packages:"); Pkg.status()'`;
-        console.error('Running diagnostics:', diagnosticCommand);
-        const { stdout: diagnosticOutput } = await execAsync(diagnosticCommand);
-        
-        if (stderr.includes("Package") && stderr.includes("not found in current path")) {
-          throw new Error(
-            `Package ${packageName} not found in the current project environment.\n` +
-            `Environment Info:\n${diagnosticOutput}\n` +
-            `If using a custom project (JULIA_PROJECT), make sure to add the package first:\n` +
-            `julia> using Pkg; Pkg.add("${packageName}")`
-          );
-        } else if (stderr.includes("could not load package")) {
-          throw new Error(`Package not found: ${stderr}\n${diagnosticOutput}`);
-        } else if (stderr.includes("not found")) {
-          throw new Error(`Symbol not found: ${stderr}\n${diagnosticOutput}`);
-        } else if (stderr.includes("UndefVarError")) {
-          throw new Error(`Package not loaded. Try installing the package first.\n${diagnosticOutput}`);
+        log.debug('Julia batch output', stderr);
+      }
+      return parseJuliaResult<T>(stdout);
+    } catch (error) {
+      throw this.failure(error);
+    }
+  }
+
+  private failure(error: unknown): JuliaToolError {
+    const failure = toolError(error);
+    log.error(`Julia error (${failure.code}): ${failure.message}`);
+    if (failure.backtrace) log.debug('Julia backtrace', failure.backtrace);
+    return failure;
+  }
+
+  // Environment of the current tool call: its `project`, run with the Julia
+  // its julia_version selects
+  private async environment(project?: string): Promise<JuliaEnvironment> {
+    const version = this.calls.getStore()?.juliaVersion;
+    return this.environments.get(project, version === undefined ? undefined : await this.versions.resolve(version));
+  }
+
+  // Directory of the project a tool reads the source of
+  private projectDir(env: JuliaEnvironment): string {
+    if (env.projectPath === null) {
+      throw new JuliaToolError("invalid_argument", "No project given, and no default project is configured (JULIA_PROJECT)");
+    }
+    return env.projectPath;
+  }
+
+  // Ask Julia once which version and environment it runs in. An attached
+  // session may switch projects, so it is asked every time.
+  private environmentInfo(env: JuliaEnvironment): Promise<EnvironmentInfo> {
+    if (!env.info || env.session) {
+      env.info = this.runJuliaTool<EnvironmentInfo>(env,
+        "JuliaDocMCP.emit(JuliaDocMCP.environment_info())"
+      );
+      env.info.catch(() => { env.info = null; });
+    }
+    return env.info;
+  }
+
+  // Cache namespace of an environment. The manifest is re-hashed on every
+  // call, so editing the environment switches to a fresh namespace.
+  private async cacheNamespace(env: JuliaEnvironment): Promise<string> {
+    const info = await this.environmentInfo(env);
+    const key = environmentKey(info.julia_version, info.project, info.manifest);
+    this.cache.register(key, { julia_version: info.julia_version, project: info.project });
+    return key;
+  }
+
+  // Result of a Julia lookup, from the disk cache when the environment has
+  // not changed since it was computed. Nothing is cached for an attached
+  // session, where code changes without the manifest changing.
+  private async cached<T>(env: JuliaEnvironment, key: string, compute: () => Promise<T>): Promise<T> {
+    if (env.session) return compute();
+    const namespace = await this.cacheNamespace(env);
+    const hit = this.cache.get<T>(namespace, key);
+    if (hit !== undefined) {
+      log.debug(`Returning cached result for ${key}`);
+      return hit;
+    }
+    const value = await compute();
+    this.cache.set(namespace, key, value);
+    return value;
+  }
+
+  // The docstring index of an environment: kept in memory, cached on disk,
+  // and rebuilt whenever the Julia version or Manifest.toml changes
+  private async getSearchIndex(env: JuliaEnvironment, rebuild: boolean): Promise<SearchIndex> {
+    const key = await this.cacheNamespace(env);
+    const info = await this.environmentInfo(env);
+    if (!rebuild && env.searchIndex?.key === key) {
+      return env.searchIndex.index;
+    }
+
+    const file = join(this.cache.namespaceDir(key), "search-index.json");
+    const build = async (): Promise<SearchIndex> => {
+      const cached = rebuild ? null : loadIndex(file);
+      if (cached) {
+        log.info(`Loaded search index from ${file}`);
+        return cached;
+      }
+      log.info(`Building search index for ${info.project ?? "the default environment"}`);
+      const { entries, skipped } = await this.runJuliaBatch<{ entries: DocEntry[]; skipped: string[] }>(
+        env, BUILD_INDEX_CODE
+      );
+      const index = new SearchIndex(entries, new Date().toISOString(), skipped);
+      saveIndex(file, index);
+      return index;
+    };
+
+    const index = build();
+    env.searchIndex = { key, index };
+    index.catch(() => { env.searchIndex = null; });
+    return index;
+  }
+
+  // Evaluate code in the attached Julia session, on a persistent worker, or
+  // in a fresh `julia -e` process, whichever is first available. Inside a tool
+  // call the tool's timeout applies and cancelling the call kills the Julia
+  // process (a session only drops the call).
+  private async executeJulia(env: JuliaEnvironment, code: string, args: JuliaArgs = {}): Promise<JuliaOutput> {
+    const call = this.calls.getStore();
+    const options: RunOptions = call ?
+      { timeoutSeconds: call.timeoutSeconds, signal: call.signal, onStderr: call.onStderr } :
+      {};
+    let live = false;
+    try {
+      if (env.session) {
+        try {
+          live = true;
+          return await env.session.run(code, args, options);
+        } catch (error) {
+          if (!(error instanceof SessionUnavailableError)) {
+            throw error;
+          }
+          live = false;
         }
-        throw new Error(`${stderr}\n${diagnosticOutput}`);
       }
-      
-      if (!stdout.trim()) {
-        throw new Error("No documentation found");
+      if (env.workers) {
+        try {
+          return await env.workers.run(code, args, options);
+        } catch (error) {
+          if (!(error instanceof WorkerUnavailableError)) {
+            throw error;
+          }
+          log.warning(`Julia worker unavailable, falling back to one-shot mode: ${error.message}`);
+        }
       }
-      
-      return stdout.trim();
+      log.debug('Running Julia in one-shot mode');
+      return await runJuliaOnce({ juliaPath: env.juliaPath, projectPath: env.projectPath, env: this.juliaVariables }, code, args, {
+        ...options,
+        timeoutSeconds: options.timeoutSeconds ?? this.defaultTimeout,
+      });
     } catch (error) {
-      console.error(`Julia command error:`, error);
-      if (error instanceof Error) {
-        if (error.message.includes("ENOENT")) {
-          throw new Error("Julia executable not found. Please ensure Julia is installed and in your PATH.");
-        }
-        throw new Error(`Julia error: ${error.message}`);
+      if (error instanceof JuliaTimeoutError && call) {
+        throw new JuliaTimeoutError(
+          `${call.tool} timed out after ${call.timeoutSeconds} seconds and ` +
+          (live ? `the Julia session will finish it without reporting back. ` : `its Julia process was stopped. `) +
+          `Loading packages that need precompiling can take minutes the first time; raise the limit with ` +
+          `"timeouts": { "tools": { "${call.tool}": <seconds> } } in the config file, ` +
+          `--tool-timeout ${call.tool}=<seconds> or JULIADOC_TOOL_TIMEOUTS="${call.tool}=<seconds>"`
+        );
       }
       throw error;
     }
   }
 
+  // Documentation for a path, shared by the get-doc tool and doc resources
+  private async fetchDoc(
+    env: JuliaEnvironment,
+    path: string,
+    detail_level: "concise" | "full" | "all" = "full",
+    include_unexported = false,
+    summary = false
+  ): Promise<GetDocResult> {
+    // The path is resolved on the Julia side, loading its package if needed
+    const command = `
+        obj = JuliaDocMCP.resolve(args["path"])
+        result = JuliaDocMCP.symbol_info(args["path"])
+        detail = args["detail_level"]
+        result["docstring"] = detail == "concise" ? nothing : string(JuliaDocMCP.doc(args["path"]))
+        if detail != "full"
+          result["methods"] = [JuliaDocMCP.method_info(m) for m in methods(obj)]
+        end
+        # Show internal fields if it's a concrete type
+        if detail == "all" && obj isa DataType && isconcretetype(obj)
+          result["fields"] = [(name = string(f), type = string(fieldtype(obj, f))) for f in fieldnames(obj)]
+        end
+        # Every docstring in the module when including unexported symbols, and
+        # the start of each exported one for a module in summary mode
+        if args["include_unexported"] || (args["summary"] && obj isa Module)
+          mod = JuliaDocMCP.resolve_module(args["path"])
+          member_doc(n) = string(Base.Docs.doc(Base.Docs.Binding(mod, n)))
+          result["members"] = [
+            (name = string(n),
+             kind = JuliaDocMCP.symbol_kind(getfield(mod, n), n),
+             docstring = args["summary"] ? first(member_doc(n), 1000) : member_doc(n))
+            for n in sort(names(mod, all=args["include_unexported"])) if !startswith(string(n), "#") && isdefined(mod, n)
+          ]
+        end
+        JuliaDocMCP.emit(result)
+    `;
+
+    return this.cached(env, `get-doc:${path}:${detail_level}:${include_unexported}:${summary}`, async () => {
+      const result = await this.runJuliaTool<Omit<GetDocResult, "sections">>(
+        env, command, { path, detail_level: summary ? "full" : detail_level, include_unexported, summary }
+      );
+      if (summary) {
+        return {
+          ...result,
+          docstring: null,
+          sections: [],
+          methods: undefined,
+          fields: undefined,
+          summary: docSummary(result.docstring),
+          members: result.members?.map(({ name, kind, docstring }) => ({ name, kind, summary: docSummary(docstring ?? null) })),
+          omitted: `Summary mode left out the full docstring${result.members ? "s" : ""}, method signatures and fields. ` +
+            `Call get-doc with summary=false on ${path}${result.members ? ` or on ${path}.<name>` : ""} for details`,
+        };
+      }
+      return {
+        ...result,
+        sections: result.docstring === null ? [] : splitDocSections(result.docstring),
+      };
+    });
+  }
+
+  // Package directory and make.jl pages of a package's manual. Not cached, so
+  // edits to the docs of dev'd packages show up immediately.
+  private async locateManual(env: JuliaEnvironment, name: string): Promise<LocatedManual> {
+    const manual = await this.runJuliaTool<LocatedManual>(env, LOCATE_MANUAL_CODE, { package: name });
+    if (!existsSync(manual.docs_dir)) {
+      throw new Error(`${name} has no manual: ${manual.docs_dir} does not exist`);
+    }
+    return manual;
+  }
+
+  // Source of the methods behind a path, shared by the get-source tool and
+  // source resources
+  private async fetchSource(env: JuliaEnvironment, path: string, options: SourceOptions = {}): Promise<GetSourceResult> {
+    const { signature = null, context_lines = 5, max_methods = 20, exclude_external = false } = options;
+    // The path is resolved on the Julia side, loading its package if needed
+    const command = `
+        JS = isdefined(Base, :JuliaSyntax) ? Base.JuliaSyntax : nothing
+
+        # Contents, line offsets and syntax tree of each file read by this request
+        parsed_files = Dict{String,Any}()
+        parsed_file(file) = get!(parsed_files, file) do
+          text = read(file, String)
+          starts = [1; findall(==(UInt8('\\n')), codeunits(text)) .+ 1]
+          tree = JS === nothing ? nothing : JS.parseall(JS.SyntaxNode, text; filename=file, ignore_errors=true)
+          (text = text, lines = split(text, "\\n"), starts = starts, tree = tree)
+        end
+        line_of(src, byte) = searchsortedlast(src.starts, byte)
+
+        # Last line of the definition starting on a line: the outermost syntax
+        # node that begins there, so one-liners, do blocks, quotes and strings
+        # containing "end" are measured by the parser rather than guessed
+        function definition_end(src, line)
+          if src.tree === nothing
+            # No JuliaSyntax (Julia < 1.10): the parser reports where the
+            # expression starting on this line stops
+            _, next = Meta.parse(src.text, src.starts[line]; raise=false)
+            return line_of(src, max(src.starts[line], prevind(src.text, next)))
+          end
+          kids(node) = something(JS.children(node), ())
+          function find(node)
+            for child in kids(node)
+              first_line = line_of(src, JS.first_byte(child))
+              first_line == line && return child
+              first_line > line && return nothing
+              line_of(src, JS.last_byte(child)) >= line && return find(child)
+            end
+            return nothing
+          end
+          node = find(src.tree)
+          return node === nothing ? line : line_of(src, JS.last_byte(node))
+        end
+
+        # Method location plus the lines of its definition, with context
+        function method_source(m, context)
+          info = JuliaDocMCP.method_info(m)
+          info["definition"] = nothing
+          info["context"] = nothing
+          info["error"] = nothing
+          file, line = info["file"], info["line"]
+          try
+            if file !== nothing && line !== nothing && line > 0 && isfile(file)
+              src = parsed_file(file)
+              last_line = definition_end(src, line)
+              start_line = max(1, line - context)
+              end_line = min(length(src.lines), last_line + context)
+              info["definition"] = (start_line = line, end_line = last_line)
+              info["context"] = (start_line = start_line, end_line = end_line, lines = src.lines[start_line:end_line])
+            else
+              info["error"] = "Could not find source file"
+            end
+          catch e
+            info["error"] = "Error retrieving source: " * sprint(showerror, e)
+          end
+          return info
+        end
+
+        # Whether a module is root or one of its submodules
+        function within(mod, root)
+          while mod !== root
+            parent = parentmodule(mod)
+            parent === mod && return false
+            mod = parent
+          end
+          return true
+        end
+
+        parent, name, obj = JuliaDocMCP.resolve_binding(args["path"])
+        owner = obj isa Module && parent === Main ? obj : Base.which(parent, name)
+        ms = if args["signature"] !== nothing
+          [JuliaDocMCP.which_method(obj, JuliaDocMCP.signature_type(args["signature"], name, owner))]
+        else
+          collect(methods(obj))
+        end
+        args["exclude_external"] && filter!(m -> within(m.module, owner), ms)
+        JuliaDocMCP.emit((
+          path = args["path"],
+          signature = args["signature"],
+          total_methods = length(ms),
+          methods = [method_source(m, args["context_lines"]) for m in first(ms, args["max_methods"])],
+        ))
+    `;
+
+    const key = `get-source:${path}:${signature}:${context_lines}:${max_methods}:${exclude_external}`;
+    return this.cached(env, key, () =>
+      this.runJuliaTool<GetSourceResult>(env, command, {
+        path, signature, context_lines, max_methods, exclude_external,
+      })
+    );
+  }
+
+  // Symbols of a module, shared by the list-package tool and package resources
+  private async fetchPackage(
+    env: JuliaEnvironment,
+    path: string,
+    include_unexported = false,
+    summary = false
+  ): Promise<ListPackageResult> {
+    const command = `
+      module_obj = JuliaDocMCP.resolve_module(args["path"])  # Loads the package if needed
+      exported = Set(names(module_obj))
+      # Start of the first docstring of a binding, for summary mode
+      function doc_head(n)
+        binding = Base.Docs.Binding(module_obj, n)
+        multidoc = get(Base.Docs.meta(binding.mod), binding, nothing)
+        multidoc === nothing && return nothing
+        return first(string(Base.Docs.parsedoc(first(values(multidoc.docs)))), 1000)
+      end
+      symbols = []
+      for n in sort(names(module_obj, all=args["include_unexported"]))
+        (startswith(string(n), "#") || !isdefined(module_obj, n)) && continue
+        obj = getfield(module_obj, n)
+        info = (
+          name = string(n),
+          kind = JuliaDocMCP.symbol_kind(obj, n),
+          exported = n in exported,
+        )
+        push!(symbols, args["summary"] ? merge(info, (docstring = doc_head(n),)) : merge(info, (type = string(typeof(obj)),)))
+      end
+      JuliaDocMCP.emit(Dict("module" => string(module_obj), "symbols" => symbols))
+    `;
+
+    type Symbols = (Omit<ListPackageResult["symbols"][number], "summary"> & { docstring?: string | null })[];
+    return this.cached(env, `list-package:${path}:${include_unexported}:${summary}`, async () => {
+      const result = await this.runJuliaTool<{ module: string; symbols: Symbols }>(
+        env, command, { path, include_unexported, summary }
+      );
+      if (!summary) return result;
+      return {
+        module: result.module,
+        symbols: result.symbols.map(({ docstring, ...symbol }) => ({ ...symbol, summary: docSummary(docstring ?? null) })),
+        omitted: `Summary mode left out value types and full docstrings. ` +
+          `Call get-doc on ${result.module}.<name> for a symbol's documentation`,
+      };
+    });
+  }
+
+  // Packages of an environment with their exported names, loaded once per
+  // environment for resource listings and completions
+  private environmentPackages(env: JuliaEnvironment): Promise<EnvironmentPackage[]> {
+    if (!env.packages) {
+      env.packages = this.runJuliaBatch<EnvironmentPackage[]>(env, `
+        packages = []
+        for name in JuliaDocMCP.project_dependencies()
+          exports = String[]
+          try
+            mod = Base.require(Base.identify_package(name))
+            exports = sort([string(n) for n in names(mod) if n !== nameof(mod) && !startswith(string(n), "#")])
+          catch e
+            @warn "Could not load $name" exception = e
+          end
+          push!(packages, (name = name, exports = exports))
+        end
+        JuliaDocMCP.emit(packages)
+      `);
+      env.packages.catch(() => { env.packages = null; });
+    }
+    return env.packages;
+  }
+
+  // Register a tool whose Julia calls run with the call's context (see ToolCall)
+  // and whose results are cut to the caller's char_budget, paged by the items
+  // of a list field when `paging` names one and by text otherwise
+  private registerTool<I extends z.ZodRawShape, O extends z.ZodRawShape>(
+    name: string,
+    config: { description: string; inputSchema: I; outputSchema: O },
+    handler: (args: z.objectOutputType<I, z.ZodTypeAny>) => Promise<CallToolResult>,
+    paging?: Paging<z.objectOutputType<O, z.ZodTypeAny>>,
+  ): void {
+    this.toolNames.add(name);
+    if (!this.toolEnabled(name)) {
+      log.info(`Tool ${name} is disabled`);
+      return;
+    }
+    // Tools that run Julia in a project can also run it with another version,
+    // unless they take versions of their own
+    const inputSchema = {
+      ...config.inputSchema,
+      ...("project" in config.inputSchema && !("versions" in config.inputSchema) ? { julia_version: juliaVersionSchema } : {}),
+      ...budgetInputSchema,
+    };
+    const outputSchema = {
+      ...config.outputSchema,
+      warnings: z.array(z.string()).optional().describe("Warnings Julia printed while computing the result"),
+      page: pageInfoSchema.optional(),
+    };
+    this.server.registerTool(name, { ...config, inputSchema, outputSchema }, ((
+      args: z.objectOutputType<I & typeof budgetInputSchema, z.ZodTypeAny>,
+      extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+    ) => this.calls.run(
+      this.toolCall(name, extra, (args as { julia_version?: string }).julia_version),
+      () => this.pagedCall(name, args, handler as (args: Record<string, unknown>) => Promise<CallToolResult>,
+        paging as Paging<Record<string, unknown>> | undefined)
+    )) as ToolCallback<typeof inputSchema>);
+  }
+
+  private async pagedCall(
+    tool: string,
+    args: Record<string, unknown> & { char_budget?: number; cursor?: string },
+    handler: (args: Record<string, unknown>) => Promise<CallToolResult>,
+    paging: Paging<Record<string, unknown>> | undefined
+  ): Promise<CallToolResult> {
+    const { char_budget = this.charBudget, cursor, ...toolArgs } = args;
+    let position: ReturnType<ResultPager["resume"]> | null = null;
+    try {
+      position = cursor === undefined ? null : this.pager.resume(tool, toolArgs, cursor);
+    } catch (error) {
+      return errorResult(error);
+    }
+
+    // A cursor whose stored result has expired recomputes it
+    let result: { structured: Record<string, unknown>; text: string };
+    if (position?.stored) {
+      result = position.stored;
+    } else {
+      const output = withWarnings(await handler(toolArgs), this.calls.getStore()?.warnings ?? []);
+      if (output.isError || !output.structuredContent) return output;
+      result = {
+        structured: output.structuredContent,
+        text: output.content.map(item => item.type === "text" ? item.text : "").join("\n\n"),
+      };
+      if (position === null && result.text.length <= char_budget) return output;
+    }
+    let page: ReturnType<ResultPager["page"]>;
+    try {
+      page = this.pager.page(
+        tool, toolArgs, result, char_budget, position?.cursor.offset ?? 0, paging,
+        position?.stored ? position.cursor.id : undefined
+      );
+    } catch (error) {
+      return errorResult(error);
+    }
+    return { content: [{ type: "text", text: page.text }], structuredContent: page.structured };
+  }
+
+  // Tools offered to clients: those listed in tools.enabled if given, else
+  // all but the tools running code unless run-snippet is enabled, minus
+  // tools.disabled
+  private toolEnabled(name: string): boolean {
+    const { enabled, disabled } = this.config.tools;
+    if (disabled.includes(name)) return false;
+    return enabled ? enabled.includes(name) : !CODE_TOOLS.includes(name) || this.config.run_snippet.enabled;
+  }
+
+  private toolCall(
+    tool: string,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+    juliaVersion?: string
+  ): ToolCall {
+    const progressToken = extra._meta?.progressToken;
+    let progress = 0;
+    return {
+      tool,
+      signal: extra.signal,
+      timeoutSeconds: this.toolTimeouts.get(tool) ?? this.defaultTimeout,
+      juliaVersion,
+      warnings: [],
+      onStderr: (line) => {
+        const message = loadingProgress(line);
+        if (message === null) return;
+        log.info(`${tool}: ${message}`);
+        if (progressToken === undefined) return;
+        extra.sendNotification({
+          method: "notifications/progress",
+          params: { progressToken, progress: ++progress, message },
+        }).catch(error => log.warning("Failed to send progress notification", error));
+      },
+    };
+  }
+
   private setupTools(): void {
     // Tool 1: Get documentation with flexible detail levels
-    this.server.tool(
+    this.registerTool(
       "get-doc",
-      "Get Julia documentation for a package, module, type, function, or method",
       {
-        path: z.string().describe("Path to Julia object (e.g., 'Base.sort', 'StatsBase.transform')"),
-        detail_level: z.enum(["concise", "full", "all"]).optional()
-          .describe("Level of documentation detail: concise (just signatures), full (standard docs), or all (including internals)"),
-        include_unexported: z.boolean().optional()
-          .describe("Whether to include unexported symbols")
+        description: "Get Julia documentation for a package, module, type, function, or method",
+        inputSchema: {
+          path: juliaPathSchema.describe("Path to Julia object (e.g., 'Base.sort', 'StatsBase.transform')"),
+          detail_level: z.enum(["concise", "full", "all"]).optional()
+            .describe("Level of documentation detail: concise (just signatures), full (standard docs), or all (including internals)"),
+          include_unexported: z.boolean().optional()
+            .describe("Whether to include unexported symbols"),
+          summary: z.boolean().optional()
+            .describe("Return only the name, kind and first sentence of the docstring (and of every exported " +
+              "member of a module), to drill down from"),
+          project: projectSchema,
+        },
+        outputSchema: getDocResultSchema.shape,
       },
-      async ({ path, detail_level = "full", include_unexported = false }) => {
+      async ({ path, detail_level = "full", include_unexported = false, summary = false, project }) => {
         try {
-          // Extract package name if it's a qualified path
-          const packageMatch = path.match(/^([A-Za-z][A-Za-z0-9_]*)\./);
-          const packageName = packageMatch ? packageMatch[1] : null;
-          
-          // Skip package loading for Base
-          if (packageName && packageName !== 'Base') {
-            // Build appropriate Julia command based on detail level
-            let command = "";
-            switch (detail_level) {
-              case "concise":
-                command = `
-                  using InteractiveUtils
-                  m = @which ${path}
-                  println("Type signature: ", m.sig)
-                `;
-                break;
-              case "all":
-                command = `
-                  using InteractiveUtils
-                  # Get main documentation
-                  println(@doc ${path})
-                  println("\\n", "-"^40, "\\n")
-                  # Get all methods if it's a function
-                  ms = methods(${path})
-                  if !isempty(ms)
-                    println("Method signatures:")
-                    for m in ms
-                      println(" - ", m.sig)
-                    end
-                  end
-                  # Show internal fields if it's a type
-                  if isa(${path}, Type)
-                    println("\\nFields:")
-                    for field in fieldnames(${path})
-                      println(" - ", field, "::", fieldtype(${path}, field))
-                    end
-                  end
-                `;
-                break;
-              default: // "full"
-                command = `println(@doc ${path})`;
-            }
-
-            // Override command if including unexported symbols
-            if (include_unexported) {
-              command = `
-                using InteractiveUtils
-                names(${path}, all=true) |> 
-                filter(n -> !startswith(string(n), "#")) |>
-                sort |>
-                foreach(n -> println("\\n", "-"^40, "\\n", @doc getfield(${path}, n)))
-              `;
-            }
-
-            return {
-              content: [{
-                type: "text",
-                text: await this.runJuliaCommand(command, packageName)
-              }]
-            };
-          } else {
-            // Same command building logic for Base/non-package objects
-            let command = "";
-            switch (detail_level) {
-              case "concise":
-                command = `
-                  using InteractiveUtils
-                  m = @which ${path}
-                  println("Type signature: ", m.sig)
-                `;
-                break;
-              case "all":
-                command = `
-                  using InteractiveUtils
-                  # Get main documentation
-                  println(@doc ${path})
-                  println("\\n", "-"^40, "\\n")
-                  # Get all methods if it's a function
-                  ms = methods(${path})
-                  if !isempty(ms)
-                    println("Method signatures:")
-                    for m in ms
-                      println(" - ", m.sig)
-                    end
-                  end
-                  # Show internal fields if it's a type
-                  if isa(${path}, Type)
-                    println("\\nFields:")
-                    for field in fieldnames(${path})
-                      println(" - ", field, "::", fieldtype(${path}, field))
-                    end
-                  end
-                `;
-                break;
-              default: // "full"
-                command = `println(@doc ${path})`;
-            }
-
-            return {
-              content: [{
-                type: "text",
-                text: await this.runJuliaCommand(command)
-              }]
-            };
-          }
-        } catch (error) {
+          const env = await this.environment(project);
+          const doc = await this.fetchDoc(env, path, detail_level, include_unexported, summary);
           return {
-            content: [{
-              type: "text",
-              text: error instanceof Error ? error.message : String(error)
-            }]
+            content: [{ type: "text", text: formatDoc(doc) }],
+            structuredContent: doc,
           };
+        } catch (error) {
+          return errorResult(error);
         }
-      }
+      },
+      { field: "members", format: formatDoc }
     );
 
     // Tool 2: List package contents
-    this.server.tool(
+    this.registerTool(
       "list-package",
-      "List available symbols in a Julia package or module",
       {
-        path: z.string().describe("Package or module name"),
-        include_unexported: z.boolean().optional()
-          .describe("Whether to include unexported symbols")
+        description: "List available symbols in a Julia package or module",
+        inputSchema: {
+          path: juliaPathSchema.describe("Package or module name"),
+          include_unexported: z.boolean().optional()
+            .describe("Whether to include unexported symbols"),
+          summary: z.boolean().optional()
+            .describe("Return names, kinds and the first sentence of each docstring instead of value types"),
+          project: projectSchema,
+        },
+        outputSchema: listPackageResultSchema.shape,
       },
-      async ({ path, include_unexported = false }) => {
+      async ({ path, include_unexported = false, summary = false, project }) => {
         try {
-          const command = `
-            using ${path}  # Load the package first
-            using InteractiveUtils
-            module_obj = ${path}
-            names(module_obj, all=${include_unexported}) |>
-            filter(n -> !startswith(string(n), "#")) |>
-            sort |>
-            map(n -> (n, string(typeof(getfield(module_obj, n))))) |>
-            foreach(t -> println(t[2], " ", t[1]))
-          `;
-          
-          const result = await this.runJuliaCommand(command);
+          const result = await this.fetchPackage(await this.environment(project), path, include_unexported, summary);
           return {
-            content: [{ type: "text", text: result }],
+            content: [{ type: "text", text: formatPackage(result) }],
+            structuredContent: result,
           };
         } catch (error) {
-          console.error(`Error listing package contents for ${path}:`, error);
-          return {
-            content: [
-              {
-                type: "text",
-                text: error instanceof Error ? error.message : String(error),
-              },
-            ],
-          };
+          log.error(`Error listing package contents for ${path}`, error);
+          return errorResult(error);
         }
-      }
+      },
+      { field: "symbols", format: formatPackage }
     );
 
     // Tool 3: Explore project structure
-    this.server.tool(
+    this.registerTool(
       "explore-project",
-      "Explore a Julia project's structure and dependencies",
       {
-        path: z.string().describe("Path to Julia project")
+        description: "Explore a Julia project's dependencies without running Julia: compat bounds and violations, " +
+          "resolved versions, the transitive dependency tree, weak dependencies and extensions, dev'd and " +
+          "[sources] paths, and test targets. With `why`, explains how a package ends up in the manifest.",
+        inputSchema: {
+          path: projectDirSchema
+            .describe("Path to a Julia project, its Project.toml, or any file inside it (the nearest Project.toml is used)"),
+          why: juliaPathSchema.optional()
+            .describe("Package name to explain, e.g. 'Parsers': lists every dependency chain that pulls it in"),
+        },
+        outputSchema: exploreProjectResultSchema.shape,
       },
-      async ({ path }) => {
+      async ({ path, why }) => {
         try {
-          // Read and display Project.toml contents
-          const command = `
-            using Pkg
-            project = Pkg.Types.read_project(joinpath("${path}", "Project.toml"))
-            println("Project: ", project.name, " v", project.version)
-            println("\\nDependencies:")
-            for (dep, uuid) in project.deps
-              println(" - ", dep, " = ", uuid)
-            end
-          `;
-          
-          const result = await this.runJuliaCommand(command);
+          // Parsed directly from Project.toml and Manifest.toml, so this is
+          // cheap enough not to cache
+          const result = exploreProject(resolveProject(path), why);
           return {
-            content: [{ type: "text", text: result }],
+            content: [{ type: "text", text: formatProject(result) }],
+            structuredContent: result,
           };
         } catch (error) {
-          console.error(`Error exploring project at ${path}:`, error);
-          return {
-            content: [
-              {
-                type: "text",
-                text: error instanceof Error ? error.message : String(error),
-              },
-            ],
-          };
+          log.error(`Error exploring project at ${path}`, error);
+          return errorResult(error);
         }
       },
     );
 
     // Tool 4: Get source code with context
-    this.server.tool(
+    this.registerTool(
       "get-source",
-      "Get Julia source code for a function, type, or method",
       {
-        path: z.string().describe("Path to Julia object (e.g., 'Base.sort', 'StatsBase.transform')"),
-      },
-      async ({ path }) => {
-        console.error(`Received get-source request for path: ${path}`);
-        const cacheKey = `source:${path}`;
-        const cached = this.cache.get(cacheKey);
-        if (cached) {
-          console.error(`Returning cached source for ${path}`);
+        description: "Get Julia source code for a function, type, or method. Pass `signature` to get the one " +
+          "method a call with those argument types dispatches to.",
+        inputSchema: {
+          path: juliaPathSchema.describe("Path to Julia object (e.g., 'Base.sort', 'StatsBase.transform')"),
+          signature: signatureSchema.optional()
+            .describe("Argument types selecting a single method via `which`, e.g. 'sort!(::Vector{Int})' or '(::Vector{Int},)'"),
+          context_lines: z.number().int().min(0).max(50).optional()
+            .describe("Lines shown before and after each definition (default 5)"),
+          max_methods: z.number().int().min(1).max(200).optional()
+            .describe("Maximum number of methods to return (default 20)"),
+          exclude_external: z.boolean().optional()
+            .describe("Skip methods defined outside the module that owns the function, e.g. methods other packages add to Base.show"),
+          project: projectSchema,
+        },
+        outputSchema: getSourceResultSchema.shape,
+      },
+      async ({ path, project, ...options }) => {
+        try {
+          const source = await this.fetchSource(await this.environment(project), path, options);
           return {
-            content: [{ type: "text", text: cached }],
+            content: [{ type: "text", text: formatSource(source) }],
+            structuredContent: source,
           };
+        } catch (error) {
+          log.error(`Error getting source for ${path}`, error);
+          return errorResult(error);
         }
+      },
+      { field: "methods", format: formatSource }
+    );
 
+    // Tool 5: Full-text search across every docstring in the environment
+    this.registerTool(
+      "search-docs",
+      {
+        description: "Search the docstrings of Base, the stdlibs and the active project's packages by concept when the exact name is unknown (e.g. 'sparse cholesky')",
+        inputSchema: {
+          query: z.string().min(1).max(200).describe("Words to search for"),
+          packages: z.array(juliaPathSchema).optional()
+            .describe("Only return results from these packages (e.g. ['LinearAlgebra', 'SparseArrays'])"),
+          limit: z.number().int().min(1).max(100).optional()
+            .describe("Maximum number of results (default 10)"),
+          rebuild: z.boolean().optional()
+            .describe("Rebuild the index even if a cached one exists"),
+          project: projectSchema,
+        },
+        outputSchema: searchDocsResultSchema.shape,
+      },
+      async ({ query, packages, limit = 10, rebuild = false, project }) => {
         try {
-          // Extract package name if it's a qualified path
-          const packageMatch = path.match(/^([A-Za-z][A-Za-z0-9_]*)\./);
-          const packageName = packageMatch ? packageMatch[1] : null;
-          
-          // Build the command, loading package if needed
-          const command = `
-            ${packageName && packageName !== 'Base' ? `using ${packageName}` : ''}
-            using InteractiveUtils
-
-            # Helper function to find where a method definition ends
-            function find_method_end(lines, start_line)
-              # Get base indentation of the method definition
-              base_indent = length(match(r"^\\s*", lines[start_line]).match)
-              nesting_level = 0
-              
-              # Look forward for the matching end
-              for i in start_line:length(lines)
-                line = lines[i]
-                if !isempty(strip(line))
-                  # Count nested blocks by looking for increased indentation followed by certain keywords
-                  if match(r"^\\s*(function|if|for|while|let|try|begin|module|struct|macro)\\b", line) !== nothing
-                    nesting_level += 1
-                  end
-                  
-                  # Check for end keywords
-                  if endswith(strip(line), "end")
-                    nesting_level -= 1
-                    # If we're back to the original nesting level, this is our end
-                    if nesting_level == 0
-                      return i
-                    end
-                  end
-                end
+          const index = await this.getSearchIndex(await this.environment(project), rebuild);
+          const { hits, total } = index.search(query, { packages, limit });
+          const result: SearchDocsResult = {
+            query,
+            total_matches: total,
+            results: hits.map(({ entry, score, snippet }) => ({
+              path: `${entry.module}.${entry.name}`,
+              name: entry.name,
+              module: entry.module,
+              package: entry.package,
+              kind: entry.kind,
+              score,
+              snippet,
+            })),
+            index: {
+              entries: index.entries.length,
+              built_at: index.builtAt,
+              skipped_packages: index.skipped,
+            },
+          };
+          return {
+            content: [{ type: "text", text: formatSearch(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error searching docs for "${query}"`, error);
+          return errorResult(error);
+        }
+      },
+      { field: "results", format: formatSearch }
+    );
+
+    // Tool 6: Inspect the result cache
+    this.registerTool(
+      "cache-stats",
+      {
+        description: "Show size, hit rate and per-environment usage of the on-disk result cache",
+        inputSchema: {
+          project: projectSchema,
+        },
+        outputSchema: cacheStatsResultSchema.shape,
+      },
+      async ({ project }) => {
+        try {
+          // Only name the selected environment if Julia has already reported it
+          const env = await this.environment(project);
+          const current = env.info ? await this.cacheNamespace(env) : null;
+          const result: CacheStatsResult = { ...this.cache.stats(), current_environment: current };
+          return {
+            content: [{ type: "text", text: formatCacheStats(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          return errorResult(error);
+        }
+      },
+    );
+
+    // Tool 7: Clear the result cache
+    this.registerTool(
+      "clear-cache",
+      {
+        description: "Delete cached results and search indexes, for the active environment or all environments",
+        inputSchema: {
+          all_environments: z.boolean().optional()
+            .describe("Clear the cache of every environment, not just the selected one"),
+          project: projectSchema,
+        },
+        outputSchema: clearCacheResultSchema.shape,
+      },
+      async ({ all_environments = false, project }) => {
+        try {
+          const env = await this.environment(project);
+          const removed = all_environments ?
+            this.cache.clear() :
+            this.cache.clear(await this.cacheNamespace(env));
+          this.environments.forgetSearchIndexes(all_environments ? undefined : env);
+          const result: ClearCacheResult = {
+            scope: all_environments ? "all" : "current",
+            removed_entries: removed,
+          };
+          return {
+            content: [{ type: "text", text: `Removed ${removed} cached result(s)` }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          return errorResult(error);
+        }
+      },
+    );
+
+    // Tool 8: Find Julia environments in the workspace and the depots
+    this.registerTool(
+      "list-environments",
+      {
+        description: "List Julia projects in the workspace and shared environments in DEPOT_PATH/environments, " +
+          "for use as the `project` argument of other tools",
+        inputSchema: {
+          root: projectDirSchema.optional()
+            .describe("Directory to search instead of the workspace (JULIADOC_WORKSPACE or the working directory)"),
+          max_depth: z.number().int().min(0).max(8).optional()
+            .describe("How many directory levels below the root to search (default 3)"),
+        },
+        outputSchema: listEnvironmentsResultSchema.shape,
+      },
+      async ({ root, max_depth = 3 }) => {
+        try {
+          const roots = root ? [root] : (this.config.projects.workspace ?? [process.cwd()]);
+          const found = discoverEnvironments(roots, max_depth);
+          const active = this.environments.defaultProject;
+          if (active && projectFile(active) && !found.some(env => env.path === active)) {
+            found.unshift(describeEnvironment(active, "default"));
+          }
+          const result: ListEnvironmentsResult = {
+            environments: found.map(env => ({ ...env, active: env.path === active })),
+          };
+          return {
+            content: [{ type: "text", text: formatEnvironments(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          return errorResult(error);
+        }
+      },
+      { field: "environments", format: formatEnvironments }
+    );
+
+    // Tool 9: Type hierarchy and layout
+    this.registerTool(
+      "type-info",
+      {
+        description: "Inspect a Julia type: supertype chain, subtypes tree across the loaded packages (who implements " +
+          "an abstract type), fields with types and mutability, type parameters and bounds, constructors, and " +
+          "whether it is abstract, concrete, bits or a parametric UnionAll",
+        inputSchema: {
+          path: juliaPathSchema.describe("Path to a type, e.g. 'Base.AbstractDict' or 'DataFrames.DataFrame'"),
+          subtype_depth: z.number().int().min(0).max(6).optional()
+            .describe("Levels of the subtypes tree to return (default 2, 0 to skip)"),
+          max_subtypes: z.number().int().min(1).max(1000).optional()
+            .describe("Maximum number of subtypes to return (default 200)"),
+          project: projectSchema,
+        },
+        outputSchema: typeInfoResultSchema.shape,
+      },
+      async ({ path, subtype_depth = 2, max_subtypes = 200, project }) => {
+        // The project's packages are loaded first, so that their subtypes of
+        // the type are found too
+        const command = `
+          T = JuliaDocMCP.resolve(args["path"])
+          T isa Type || throw(JuliaDocMCP.ValidationError("'$(args["path"])' is not a type"))
+          skipped = JuliaDocMCP.load_project_packages()
+
+          body = Base.unwrap_unionall(T)
+          datatype = body isa DataType
+          info = JuliaDocMCP.symbol_info(args["path"])
+          info["name"] = string(T)
+          info["abstract"] = isabstracttype(T)
+          info["concrete"] = isconcretetype(T)
+          info["mutable"] = datatype && ismutabletype(body)
+          info["bits"] = isbitstype(T)
+          info["primitive"] = datatype && isprimitivetype(body)
+          info["parametric"] = T isa UnionAll
+
+          function type_parameters(t)
+            parameters = []
+            while t isa UnionAll
+              push!(parameters, (name = string(t.var.name), lower = string(t.var.lb), upper = string(t.var.ub)))
+              t = t.body
+            end
+            return parameters
+          end
+          info["parameters"] = type_parameters(T)
+
+          function supertype_chain(t)
+            chain = String[]
+            while t !== Any
+              t = supertype(t)
+              push!(chain, string(t))
+            end
+            return chain
+          end
+          info["supertypes"] = datatype ? supertype_chain(body) : String[]
+
+          fields = []
+          if datatype && !isabstracttype(body)
+            for i in 1:fieldcount(body)
+              push!(fields, (
+                name = string(fieldname(body, i)),
+                type = string(fieldtype(body, i)),
+                constant = ismutabletype(body) && isconst(body, i),
+              ))
+            end
+          end
+          info["fields"] = fields
+          info["union_members"] = body isa Union ? string.(Base.uniontypes(body)) : String[]
+
+          # Index every type defined in a loaded module by its supertype's
+          # name once, instead of rescanning all modules per node the way
+          # InteractiveUtils.subtypes does
+          children = Dict{Core.TypeName,Vector{Any}}()
+          scanned = Set{Module}()
+          function scan(mod)
+            mod in scanned && return
+            push!(scanned, mod)
+            for n in names(mod, all=true)
+              (isdefined(mod, n) && !Base.isdeprecated(mod, n)) || continue
+              obj = getfield(mod, n)
+              if obj isa Module
+                obj !== mod && parentmodule(obj) === mod && scan(obj)
+              elseif obj isa Type
+                dt = Base.unwrap_unionall(obj)
+                (dt isa DataType && dt.name.name === n && dt.name.module === mod && dt !== Any) || continue
+                push!(get!(children, supertype(dt).name, Any[]), obj)
               end
-              
-              # If we didn't find the end, return the last line
-              return length(lines)
             end
+          end
+          foreach(scan, Base.loaded_modules_array())
 
-            # Function to display method information with context
-            function show_method_info(m)
-              println("Type signature: ", m.sig)
-              println("-" ^ 40)
-              try
-                file, line = functionloc(m)
-                println("Source location: ", file, ":", line)
-                println("-" ^ 40)
-                
-                # Read the source file
-                if isfile(file)
-                  # Read the entire file content
-                  content = read(file, String)
-                  lines = split(content, "\\n")
-                  
-                  # Show some context before the method
-                  start_line = max(1, line - 5)
-                  
-                  # Find the actual end of this method
-                  end_line = find_method_end(lines, line)
-                  
-                  # Add a few lines of context after
-                  end_line = min(length(lines), end_line + 5)
-                  
-                  # Print lines with line numbers
-                  for i = start_line:end_line
-                    linenum = string(i)
-                    linetext = i <= length(lines) ? lines[i] : ""
-                    if i == line
-                      println("➜ ", linenum, ": ", linetext)  # Highlight the definition line
-                    else
-                      println("  ", linenum, ": ", linetext)
-                    end
-                  end
-                else
-                  println("Could not find source file")
+          direct_subtypes(x) = begin
+            xt = Base.unwrap_unionall(x)
+            (xt isa DataType && isabstracttype(xt)) || return Any[]
+            subs = [typeintersect(t, x) for t in get(children, xt.name, Any[])]
+            sort!(filter(t -> t != Union{}, subs); by=string)
+          end
+          nodes = []
+          truncated = Ref(false)
+          function walk(x, depth)
+            for sub in direct_subtypes(x)
+              if length(nodes) >= args["max_subtypes"]
+                truncated[] = true
+                return
+              end
+              dt = Base.unwrap_unionall(sub)
+              push!(nodes, Dict{String,Any}(
+                "name" => string(sub),
+                "parent" => string(x),
+                "depth" => depth,
+                "module" => string(dt isa DataType ? dt.name.module : parentmodule(sub)),
+                "abstract" => isabstracttype(sub),
+                "has_subtypes" => dt isa DataType && isabstracttype(dt) && !isempty(get(children, dt.name, ())),
+              ))
+              depth < args["subtype_depth"] && walk(sub, depth + 1)
+            end
+          end
+          args["subtype_depth"] > 0 && walk(T, 1)
+          info["subtypes"] = nodes
+          info["subtypes_truncated"] = truncated[]
+
+          constructors = datatype ? collect(methods(T)) : Method[]
+          info["constructors"] = [JuliaDocMCP.method_info(m) for m in first(constructors, 50)]
+          info["total_constructors"] = length(constructors)
+          info["skipped_packages"] = skipped
+          JuliaDocMCP.emit(info)
+        `;
+
+        try {
+          const env = await this.environment(project);
+          const result = await this.cached(env, `type-info:${path}:${subtype_depth}:${max_subtypes}`, () =>
+            this.runJuliaBatch<TypeInfoResult>(env, command, { path, subtype_depth, max_subtypes })
+          );
+          return {
+            content: [{ type: "text", text: formatTypeInfo(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error inspecting type ${path}`, error);
+          return errorResult(error);
+        }
+      },
+    );
+
+    // Tool 10: Functions that accept a type
+    this.registerTool(
+      "methods-with",
+      {
+        description: "List the functions that accept a type (\"what can I do with this?\"), across Base and the " +
+          "loaded packages, grouped by the module that owns each function. Optionally includes methods on " +
+          "supertypes and flags ambiguous methods involving the type.",
+        inputSchema: {
+          path: juliaPathSchema.describe("Path to a type, e.g. 'Base.Dict' or 'DataFrames.DataFrame'"),
+          include_supertypes: z.boolean().optional()
+            .describe("Also list methods on the type's supertypes (except Any), e.g. AbstractDict methods for Dict"),
+          modules: z.array(juliaPathSchema).optional()
+            .describe("Only list functions owned by these modules, e.g. ['Base']"),
+          check_ambiguities: z.boolean().optional()
+            .describe("Look for ambiguous method pairs involving the type (default true)"),
+          max_methods: z.number().int().min(1).max(2000).optional()
+            .describe("Maximum number of methods to return (default 300)"),
+          project: projectSchema,
+        },
+        outputSchema: methodsWithResultSchema.shape,
+      },
+      async ({ path, include_supertypes = false, modules = [], check_ambiguities = true, max_methods = 300, project }) => {
+        // The project's packages are loaded first, so methods they add are found too
+        const command = `
+          import InteractiveUtils
+          T = JuliaDocMCP.resolve(args["path"])
+          T isa Type || throw(JuliaDocMCP.ValidationError("'$(args["path"])' is not a type"))
+          skipped = JuliaDocMCP.load_project_packages()
+          wanted = Set(string(JuliaDocMCP.resolve_module(m)) for m in args["modules"])
+
+          # The function a method belongs to and the module owning it;
+          # constructors belong to the module defining the method
+          function owner(m)
+            ft = Base.unwrap_unionall(m.sig).parameters[1]
+            ft isa DataType && !(ft <: Type) ? ft.name.module : m.module
+          end
+          function method_function(m)
+            ft = Base.unwrap_unionall(m.sig).parameters[1]
+            ft isa DataType && isdefined(ft, :instance) ? ft.instance : nothing
+          end
+
+          ms = InteractiveUtils.methodswith(T; supertypes=args["include_supertypes"])
+          isempty(wanted) || filter!(m -> string(owner(m)) in wanted, ms)
+          sort!(ms; by = m -> (string(owner(m)), string(m.name), string(m.sig)))
+          total = length(ms)
+          ms = first(ms, args["max_methods"])
+
+          groups = Dict{String,Dict{String,Vector{Any}}}()
+          for m in ms
+            fns = get!(groups, string(owner(m)), Dict{String,Vector{Any}}())
+            push!(get!(fns, string(m.name), Any[]), JuliaDocMCP.method_info(m))
+          end
+          modules = [
+            Dict{String,Any}(
+              "module" => mod,
+              "functions" => [(name = name, methods = fns[name]) for name in sort!(collect(keys(fns)))],
+            )
+            for (mod, fns) in sort!(collect(groups); by=first)
+          ]
+
+          # Compare each method with the other methods of its function, with
+          # a budget so functions such as show stay affordable
+          ambiguities = []
+          budget = Ref(200_000)
+          if args["check_ambiguities"]
+            for m in ms
+              f = method_function(m)
+              f === nothing && continue
+              for other in methods(f)
+                other === m && continue
+                (budget[] -= 1) < 0 && break
+                if Base.isambiguous(m, other)
+                  push!(ambiguities, (
+                    var"function" = string(m.name),
+                    method = JuliaDocMCP.method_info(m),
+                    other = JuliaDocMCP.method_info(other),
+                  ))
                 end
-              catch e
-                println("Error retrieving source: ", e)
-                println(sprint(showerror, e, catch_backtrace()))
               end
-              println()
             end
+          end
 
-            # Get all methods and display their source
-            ms = methods(${path})
-            if isempty(ms)
-              println("No methods found for ${path}")
-            else
-              println("Found ", length(ms), " method(s):")
-              println()
-              for (i, m) in enumerate(ms)
-                println("Method ", i, ":")
-                show_method_info(m)
+          JuliaDocMCP.emit((
+            type = string(T),
+            include_supertypes = args["include_supertypes"],
+            total_methods = total,
+            truncated = total > length(ms),
+            modules = modules,
+            ambiguities = ambiguities,
+            skipped_packages = skipped,
+          ))
+        `;
+
+        try {
+          const env = await this.environment(project);
+          const key = `methods-with:${path}:${include_supertypes}:${[...modules].sort()}:${check_ambiguities}:${max_methods}`;
+          const result = await this.cached(env, key, () =>
+            this.runJuliaBatch<MethodsWithResult>(env, command, {
+              path, include_supertypes, modules, check_ambiguities, max_methods,
+            })
+          );
+          return {
+            content: [{ type: "text", text: formatMethodsWith(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error finding methods with ${path}`, error);
+          return errorResult(error);
+        }
+      },
+      { field: "modules", format: formatMethodsWith }
+    );
+
+    // Tool 11: What the compiler does with a call
+    this.registerTool(
+      "inspect-code",
+      {
+        description: "Diagnose performance of a call: @code_warntype with type instabilities (Any, abstract types, " +
+          "Unions) extracted as warnings, plus @code_lowered and @code_typed, and optionally @code_llvm or @code_native",
+        inputSchema: {
+          path: juliaPathSchema.describe("Path to the function, e.g. 'Base.sum' or 'MyPackage.solve'"),
+          signature: signatureSchema.describe("Argument types of the call, e.g. 'sum(::Vector{Float64})' or '(::Vector{Float64},)'"),
+          views: z.array(codeViewSchema).optional()
+            .describe("Outputs to include (default warntype, lowered and typed; llvm and native are opt-in)"),
+          optimize: z.boolean().optional()
+            .describe("Show optimized code for the typed and llvm views (default true)"),
+          max_chars: z.number().int().min(500).max(200000).optional()
+            .describe("Maximum characters per view (default 20000)"),
+          project: projectSchema,
+        },
+        outputSchema: inspectCodeResultSchema.shape,
+      },
+      async ({ path, signature, views = ["warntype", "lowered", "typed"], optimize = true, max_chars = 20000, project }) => {
+        const command = `
+          import InteractiveUtils
+          parent, name, f = JuliaDocMCP.resolve_binding(args["path"])
+          owner = f isa Module && parent === Main ? f : Base.which(parent, name)
+          types = JuliaDocMCP.signature_type(args["signature"], name, owner)
+          m = JuliaDocMCP.which_method(f, types)
+
+          # Severity @code_warntype would color a type with: red for abstract
+          # types, yellow for small unions of concrete types
+          dispatchable(T) = Base.isdispatchelem(T) || T === Nothing || T === Missing
+          function severity(T)
+            T = Core.Compiler.widenconst(T)
+            T === Union{} && return nothing
+            T == Core.Box && return "error"
+            Base.isdispatchelem(T) && return nothing
+            T isa Union && all(dispatchable, Base.uniontypes(T)) && return "warning"
+            return "error"
+          end
+
+          function instabilities(ci, return_type)
+            warnings = []
+            add(kind, name, T, statement=nothing) = begin
+              level = severity(T)
+              level === nothing || push!(warnings, (kind = kind, name = name,
+                type = string(Core.Compiler.widenconst(T)), severity = level, statement = statement))
+            end
+            add("return", "return", return_type)
+            for (i, T) in enumerate(something(ci.slottypes, []))
+              i == 1 || add("variable", string(ci.slotnames[i]), T)  # slot 1 is #self#
+            end
+            for (i, T) in enumerate(ci.ssavaluetypes)
+              length(warnings) >= 100 && break
+              add("expression", "%$i", T, string(ci.code[i]))
+            end
+            return warnings
+          end
+          ci, return_type = first(code_typed(f, types; optimize=false))
+          warnings = instabilities(ci, return_type)
+
+          render(view) = sprint() do io
+            if view == "warntype"
+              InteractiveUtils.code_warntype(io, f, types; debuginfo=:none)
+            elseif view == "lowered"
+              foreach(code -> println(io, code), code_lowered(f, types))
+            elseif view == "typed"
+              for (code, rt) in code_typed(f, types; optimize=args["optimize"])
+                println(io, code, " => ", rt)
               end
+            elseif view == "llvm"
+              InteractiveUtils.code_llvm(io, f, types; optimize=args["optimize"], debuginfo=:none)
+            else
+              InteractiveUtils.code_native(io, f, types; debuginfo=:none)
             end
-          `;
-          
-          const source = await this.runJuliaCommand(command);
-          this.cache.set(cacheKey, source);
+          end
+          views = map(args["views"]) do view
+            text = render(view)
+            (view = view, text = first(text, args["max_chars"]), truncated = length(text) > args["max_chars"], total_chars = length(text))
+          end
+
+          JuliaDocMCP.emit((
+            path = args["path"],
+            signature = args["signature"],
+            method = JuliaDocMCP.method_info(m),
+            return_type = string(return_type),
+            warnings = warnings,
+            views = views,
+          ))
+        `;
+
+        try {
+          // Not cached: this is used on code under development, which can
+          // change without the manifest changing
+          const result = await this.runJuliaTool<InspectCodeResult>(await this.environment(project), command, {
+            path, signature, views: [...new Set(views)], optimize, max_chars,
+          });
+          return {
+            content: [{ type: "text", text: formatInspectCode(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error inspecting ${path}${signature}`, error);
+          return errorResult(error);
+        }
+      },
+    );
+
+    // Tool 12: Evaluate a snippet. It runs arbitrary code with the user's
+    // permissions, so it is only offered when explicitly enabled (see
+    // toolEnabled).
+    const limits: SnippetLimits = {
+      timeoutSeconds: this.config.run_snippet.timeout_seconds,
+      memoryMB: this.config.run_snippet.memory_mb,
+      maxOutputBytes: this.config.run_snippet.max_output_kb * 1024,
+    };
+    this.registerTool(
+      "run-snippet",
+      {
+        description: "Evaluate a Julia snippet in a fresh process using the project's environment, e.g. to check a " +
+          "docstring example. Runs in a temporary directory with timeout, memory and output limits, and returns " +
+          "stdout, stderr, the value of the last expression and any exception with its backtrace.",
+        inputSchema: {
+          code: z.string().min(1).max(100_000).describe("Julia code to run, e.g. 'using LinearAlgebra; norm([3, 4])'"),
+          timeout_seconds: z.number().int().min(1).max(limits.timeoutSeconds).optional()
+            .describe(`Wall-clock limit including Julia startup (default and maximum ${limits.timeoutSeconds})`),
+          project: projectSchema,
+        },
+        outputSchema: runSnippetResultSchema.shape,
+      },
+      async ({ code, timeout_seconds = limits.timeoutSeconds, project }) => {
+        try {
+          const env = await this.environment(project);
+          const result = await runSnippet(env.juliaPath, env.projectPath, code, {
+            ...limits,
+            timeoutSeconds: timeout_seconds,
+          }, this.calls.getStore()?.signal);
+          return {
+            content: [{ type: "text", text: formatSnippet(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error("Error running snippet", error);
+          return errorResult(error);
+        }
+      },
+    );
+
+    // Tool 13: Run the doctests in docstrings. Like run-snippet it runs code,
+    // docstrings' and the caller's setup, so it is only offered when
+    // run-snippet is enabled and runs in the same kind of sandboxed process.
+    this.registerTool(
+      "check-doctests",
+      {
+        description: "Run the jldoctest blocks in the docstrings of a symbol, or of every symbol in a package or " +
+          "module, in a fresh process using the project's environment, and report pass/fail per block with a diff " +
+          "of expected vs actual output. Setup, output and filter options and named (shared) doctests work as in " +
+          "Documenter. Runs in a temporary directory with the run-snippet memory and output limits.",
+        inputSchema: {
+          path: juliaPathSchema.describe("Symbol or module whose docstrings to check, e.g. 'Base.sort' or 'MyPackage'"),
+          include_examples: z.boolean().optional()
+            .describe("Also run julia> blocks in plain julia / julia-repl code fences (default false)"),
+          setup: z.string().max(10_000).optional()
+            .describe("Code run in every sandbox before its doctest, like Documenter's DocTestSetup. " +
+              "The documented package is already loaded with `using`."),
+          filters: z.array(z.string().max(1000)).max(50).optional()
+            .describe("Julia regexes removed from expected and actual output before comparing, like DocTestFilters"),
+          max_blocks: z.number().int().min(1).max(500).optional()
+            .describe("Maximum number of blocks to run (default 50)"),
+          project: projectSchema,
+        },
+        outputSchema: checkDoctestsResultSchema.shape,
+      },
+      async ({ path, include_examples = false, setup, filters = [], max_blocks = 50, project }) => {
+        try {
+          const env = await this.environment(project);
+          const docstrings = await this.runJuliaBatch<{ binding: string; text: string }[]>(env, COLLECT_DOCSTRINGS_CODE, { path });
+          const found = docstrings.flatMap(doc => extractDoctests(doc.binding, doc.text, include_examples));
+          const selected = found.slice(0, max_blocks);
+          const runnable = selected.filter(block => block.problem === null);
+          // A bare macro or operator belongs to Base
+          const root = /^[\p{L}_]/u.test(path) ? path.split(".")[0] : "Base";
+
+          // Not cached: doctests are run to check code that may have changed
+          const call = this.calls.getStore();
+          const runs: DoctestRun[] = runnable.length === 0 ? [] : await runDoctests(env.juliaPath, env.projectPath, {
+            package: ["Base", "Core", "Main"].includes(root) ? null : root,
+            setup: setup ?? null,
+            filters,
+            blocks: runnable.map(block => ({
+              group: block.name === null ? null : `${block.binding}:${block.name}`,
+              kind: block.kind,
+              options: block.options,
+              steps: block.steps,
+            })),
+          }, { ...limits, timeoutSeconds: call?.timeoutSeconds ?? this.defaultTimeout }, call?.signal);
+          const blocks = selected.map(block => {
+            const index = runnable.indexOf(block);
+            return checkDoctest(block, index < 0 ? null : runs[index]);
+          });
+          const passed = blocks.filter(block => block.status === "passed").length;
+          const result: CheckDoctestsResult = {
+            path,
+            total_blocks: found.length,
+            passed,
+            failed: blocks.length - passed,
+            skipped_blocks: found.length - selected.length,
+            blocks,
+          };
+          return {
+            content: [{ type: "text", text: formatDoctests(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error checking doctests of ${path}`, error);
+          return errorResult(error);
+        }
+      },
+      { field: "blocks", format: formatDoctests }
+    );
+
+    // Tools 14 and 15: Package manuals from docs/src
+    this.registerTool(
+      "list-manual",
+      {
+        description: "Table of contents of a package's manual (tutorials, guides and other pages in docs/src), " +
+          "ordered by the pages list in docs/make.jl. Read a page with get-manual-page.",
+        inputSchema: {
+          package: juliaPathSchema.describe("Package in the environment, e.g. 'DataFrames'"),
+          project: projectSchema,
+        },
+        outputSchema: listManualResultSchema.shape,
+      },
+      async ({ package: name, project }) => {
+        try {
+          const manual = await this.locateManual(await this.environment(project), name);
+          const { toc, unlisted } = manualToc(manual);
+          const result: ListManualResult = {
+            package: manual.package,
+            package_dir: manual.package_dir,
+            docs_dir: manual.docs_dir,
+            make_file: manual.make_file,
+            toc_source: manual.pages !== null ? "make.jl" : "directory",
+            toc,
+            unlisted,
+          };
+          return {
+            content: [{ type: "text", text: formatManualToc(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error listing the manual of ${name}`, error);
+          return errorResult(error);
+        }
+      },
+      { field: "toc", format: formatManualToc }
+    );
+
+    this.registerTool(
+      "get-manual-page",
+      {
+        description: "Read a page of a package's manual from docs/src as Markdown, with @docs blocks replaced by " +
+          "the docstrings they list and @ref links resolved to docstrings or manual sections",
+        inputSchema: {
+          package: juliaPathSchema.describe("Package in the environment, e.g. 'DataFrames'"),
+          page: z.string().min(1).max(1024)
+            .describe("Page path relative to docs/src as listed by list-manual, e.g. 'man/getting_started.md'"),
+          resolve_docs: z.boolean().optional()
+            .describe("Replace @docs blocks with the docstrings they list (default true; loads the package)"),
+          project: projectSchema,
+        },
+        outputSchema: getManualPageResultSchema.shape,
+      },
+      async ({ package: name, page, resolve_docs = true, project }) => {
+        try {
+          const env = await this.environment(project);
+          const manual = await this.locateManual(env, name);
+          const path = manualPagePath(manual.docs_dir, page);
+          const file = join(manual.docs_dir, path);
+          const text = readFileSync(file, "utf8");
+
+          // Names are resolved in the page's CurrentModule, or the package itself
+          const { currentModule, entries } = pageDocsEntries(text);
+          const scope = currentModule ?? manual.package;
+          const docs = resolve_docs && entries.length > 0 ?
+            await this.runJuliaBatch<ResolvedDoc[]>(env, RESOLVE_DOCS_CODE, { module: scope, entries }) :
+            [];
+          const rendered = renderManualPage(text, new Map(docs.map(doc => [doc.entry, doc])));
+          const { text: content, refs } = resolveRefs(rendered, manualSections(manual.docs_dir), scope);
+
+          const result: GetManualPageResult = {
+            package: manual.package,
+            page: path,
+            title: pageTitle(manual.docs_dir, path),
+            file,
+            content,
+            docs: docs.map(doc => ({ entry: doc.entry, path: doc.path, found: doc.docstring !== null, error: doc.error })),
+            refs,
+          };
+          return {
+            content: [{ type: "text", text: formatManualPage(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error reading manual page ${page} of ${name}`, error);
+          return errorResult(error);
+        }
+      },
+    );
+
+    // Tool 16: Installed Julia versions
+    this.registerTool(
+      "list-julia-versions",
+      {
+        description: "List the installed Julia versions (juliaup channels, unpacked tarballs, apps and julia on PATH) " +
+          "that the julia_version argument of other tools and compare-docs can select",
+        inputSchema: {
+          refresh: z.boolean().optional().describe("Search again instead of using the list found earlier (default false)"),
+        },
+        outputSchema: listJuliaVersionsResultSchema.shape,
+      },
+      async ({ refresh = false }) => {
+        try {
+          const result: ListJuliaVersionsResult = { installations: await this.versions.list(refresh) };
+          return {
+            content: [{ type: "text", text: formatJuliaVersions(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          return errorResult(error);
+        }
+      },
+      { field: "installations", format: formatJuliaVersions }
+    );
+
+    // Tool 17: How a symbol's documentation changed between Julia versions
+    this.registerTool(
+      "compare-docs",
+      {
+        description: "Compare a symbol's docstring (as a line diff) and method signatures (added and removed) " +
+          "between two Julia versions, e.g. what changed in Base.sort from LTS to release. A symbol missing in one " +
+          "version is reported, not an error.",
+        inputSchema: {
+          path: juliaPathSchema.describe("Path to Julia object (e.g., 'Base.sort', 'LinearAlgebra.cholesky')"),
+          versions: z.array(juliaVersionNameSchema).length(2)
+            .describe("The two versions to compare, older first: juliaup channels or installed versions, " +
+              "e.g. ['lts', 'release'] or ['1.10', '1.11']"),
+          compare: z.enum(["docstring", "methods", "both"]).optional()
+            .describe("What to compare (default both)"),
+          project: projectSchema,
+        },
+        outputSchema: compareDocsResultSchema.shape,
+      },
+      async ({ path, versions, compare = "both", project }) => {
+        try {
+          const [from, to] = await Promise.all(versions.map(async version => {
+            const env = this.environments.get(project, await this.versions.resolve(version));
+            const info = await this.environmentInfo(env);
+            let doc: GetDocResult | null = null;
+            try {
+              doc = await this.fetchDoc(env, path, compare === "docstring" ? "full" : "all");
+            } catch (error) {
+              // Symbols and packages that only exist in one of the versions
+              if (!(error instanceof JuliaToolError && ["symbol_undefined", "package_not_in_env"].includes(error.code))) {
+                throw error;
+              }
+            }
+            const side = { julia_version: version, version: info.julia_version, defined: doc !== null };
+            return { side, doc };
+          }));
+          const signatures = (doc: GetDocResult | null) => new Set((doc?.methods ?? []).map(m => m.signature));
+          const before = signatures(from.doc);
+          const after = signatures(to.doc);
+          const result: CompareDocsResult = {
+            path,
+            from: from.side,
+            to: to.side,
+            docstring: compare === "methods" ? null : {
+              identical: from.doc?.docstring === to.doc?.docstring,
+              diff: from.doc?.docstring === to.doc?.docstring ? null :
+                lineDiff(from.doc?.docstring ?? "", to.doc?.docstring ?? ""),
+            },
+            methods: compare === "docstring" ? null : {
+              removed: [...before].filter(sig => !after.has(sig)).sort(),
+              added: [...after].filter(sig => !before.has(sig)).sort(),
+              unchanged: [...before].filter(sig => after.has(sig)).length,
+            },
+          };
+          return {
+            content: [{ type: "text", text: formatCompareDocs(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error comparing ${path} across Julia versions`, error);
+          return errorResult(error);
+        }
+      },
+    );
+    // Tool 18: Outline of a project's source, parsed without loading it
+    this.registerTool(
+      "outline",
+      {
+        description: "Outline a project's source without loading or running it: modules, includes, structs and " +
+          "other types, functions with their method signatures, macros, consts, exports and public names, each " +
+          "with file and line. Parses src/ with JuliaSyntax, following include() from the package's entry file, " +
+          "so it also works on code that does not load or has syntax errors.",
+        inputSchema: {
+          kinds: z.array(outlineKindSchema).optional().describe("Only list these kinds of entries"),
+          project: projectDirSchema.optional()
+            .describe("Project to outline: its directory, Project.toml or any file inside it. Defaults to JULIA_PROJECT"),
+        },
+        outputSchema: outlineResultSchema.shape,
+      },
+      async ({ kinds, project }) => {
+        try {
+          const env = await this.environment(project);
+          const dir = this.projectDir(env);
+          const tree = sourceTree(dir, ["src"]);
+          const outline = await this.runJuliaTool<Omit<OutlineResult, "project" | "package">>(env, OUTLINE_CODE, {
+            root: tree.root, entry: tree.entry, package: tree.package, files: tree.files,
+          });
+          const result: OutlineResult = {
+            project: dir,
+            package: tree.package,
+            ...outline,
+            entries: kinds ? outline.entries.filter(entry => kinds.includes(entry.kind)) : outline.entries,
+          };
           return {
-            content: [{ type: "text", text: source }],
+            content: [{ type: "text", text: formatOutline(result) }],
+            structuredContent: result,
           };
         } catch (error) {
-          console.error(`Error getting source for ${path}:`, error);
+          log.error(`Error outlining ${project ?? "the default project"}`, error);
+          return errorResult(error);
+        }
+      },
+      { field: "entries", format: formatOutline }
+    );
+
+    // Tool 19: Call sites, methods and subtypes of a name across local source trees
+    this.registerTool(
+      "find-references",
+      {
+        description: "Find references to a function, type or macro in a project's source and its dev'd " +
+          "dependencies without loading them: call sites (including macro calls and broadcasts), method " +
+          "definitions extending it, subtype declarations and imports. Names are matched syntactically: an " +
+          "unqualified `show` counts as a reference to Base.show, Other.show does not.",
+        inputSchema: {
+          name: referenceNameSchema.describe("Name to find, e.g. 'show', 'Base.show', 'AbstractArray' or 'Base.@time'"),
+          kinds: z.array(referenceKindSchema).optional().describe("Only these kinds of references (default all)"),
+          dev_dependencies: z.boolean().optional()
+            .describe("Also search packages the project tracks by path (Pkg.develop) (default true)"),
+          tests: z.boolean().optional().describe("Also search the project's test/ directory (default true)"),
+          max_results: z.number().int().min(1).max(5000).optional().describe("Most references listed (default 500)"),
+          project: projectDirSchema.optional()
+            .describe("Project to search: its directory, Project.toml or any file inside it. Defaults to JULIA_PROJECT"),
+        },
+        outputSchema: findReferencesResultSchema.shape,
+      },
+      async ({ name, kinds = referenceKindSchema.options, dev_dependencies = true, tests = true, max_results = 500, project }) => {
+        try {
+          const env = await this.environment(project);
+          const dir = this.projectDir(env);
+          const trees = [{ ...sourceTree(dir, ["src", "ext", ...(tests ? ["test"] : [])]), dev_dependency: false }];
+          if (dev_dependencies) {
+            for (const dep of devDependencies(dir)) {
+              if (trees.some(tree => tree.root === dep.path)) continue;
+              trees.push({ ...sourceTree(dep.path, ["src", "ext"]), package: dep.name, dev_dependency: true });
+            }
+          }
+          const found = await this.runJuliaTool<Omit<FindReferencesResult, "name" | "sources">>(env, FIND_REFERENCES_CODE, {
+            name, kinds, max_results,
+            sources: trees.map(tree => ({ package: tree.package, root: tree.root, files: tree.files })),
+          });
+          const result: FindReferencesResult = {
+            name,
+            sources: trees.map(tree => ({
+              package: tree.package, root: tree.root, dev_dependency: tree.dev_dependency, files: tree.files.length,
+            })),
+            ...found,
+          };
           return {
-            content: [
-              {
-                type: "text",
-                text: error instanceof Error ? error.message : String(error),
+            content: [{ type: "text", text: formatReferences(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error finding references to ${name}`, error);
+          return errorResult(error);
+        }
+      },
+      { field: "references", format: formatReferences }
+    );
+
+    // Tool 20: Documentation coverage of a package's API
+    this.registerTool(
+      "api-report",
+      {
+        description: "Report a package's API surface and documentation coverage: every exported and public " +
+          "(Julia 1.11) name with its kind and docstrings, flagging exported and public names without a docstring, " +
+          "docstrings that mention none of their methods' argument names, and unexported names that are " +
+          "documented. The text is a Markdown report or JSON, e.g. to check a package before merging.",
+        inputSchema: {
+          path: juliaPathSchema.describe("Package or module name"),
+          format: z.enum(["markdown", "json"]).optional().describe("Format of the text report (default markdown)"),
+          flagged_only: z.boolean().optional().describe("Only list names with a flag (default false)"),
+          project: projectSchema,
+        },
+        outputSchema: apiReportResultSchema.shape,
+      },
+      async ({ path, format = "markdown", flagged_only = false, project }) => {
+        try {
+          // Not cached: the point is checking docstrings as they are being
+          // edited, which a dev'd package does without changing the manifest
+          const { module, symbols } = await this.runJuliaTool<Pick<ApiReportResult, "module" | "symbols">>(
+            await this.environment(project), API_REPORT_CODE, { path }
+          );
+          const api = symbols.filter(symbol => symbol.public);
+          const documented = api.filter(symbol => symbol.documented).length;
+          const flagCount = (flag: ApiReportResult["symbols"][number]["flags"][number]) =>
+            symbols.filter(symbol => symbol.flags.includes(flag)).length;
+          const result: ApiReportResult = {
+            module,
+            format,
+            summary: {
+              public: api.length,
+              documented,
+              coverage: api.length === 0 ? null : documented / api.length,
+              flagged: {
+                undocumented: flagCount("undocumented"),
+                arguments_not_mentioned: flagCount("arguments_not_mentioned"),
+                documented_unexported: flagCount("documented_unexported"),
               },
-            ],
+            },
+            symbols: flagged_only ? symbols.filter(symbol => symbol.flags.length > 0) : symbols,
           };
+          return {
+            content: [{ type: "text", text: formatApiReport(result) }],
+            structuredContent: result,
+          };
+        } catch (error) {
+          log.error(`Error reporting the API of ${path}`, error);
+          return errorResult(error);
         }
       },
+      { field: "symbols", format: formatApiReport }
+    );
+  }
+
+  // Documentation, source and package overviews as juliadoc:// resources, so
+  // clients can browse them and attach them to a conversation
+  private setupResources(): void {
+    const markdown = (uri: URL, text: string) => ({
+      contents: [{ uri: uri.href, mimeType: "text/markdown", text }],
+    });
+    // Resources always use the default environment
+    const env = () => this.environments.get();
+    const completePackage = async (value: string) =>
+      (await this.environmentPackages(env())).map(p => p.name).filter(name => name.startsWith(value));
+    const completeSymbol = async (value: string, context?: { arguments?: Record<string, string> }) => {
+      const pkg = (await this.environmentPackages(env())).find(p => p.name === context?.arguments?.module);
+      return (pkg?.exports ?? []).filter(name => name.startsWith(value));
+    };
+
+    this.server.registerResource(
+      "julia-doc",
+      new ResourceTemplate("juliadoc://doc/{module}/{symbol}", {
+        // Every exported name of every package in the active environment
+        list: async () => ({
+          resources: (await this.environmentPackages(env())).flatMap(pkg => pkg.exports.map(name => ({
+            uri: `juliadoc://doc/${pkg.name}/${encodeURIComponent(name)}`,
+            name: `${pkg.name}.${name}`,
+            mimeType: "text/markdown",
+          }))),
+        }),
+        complete: { module: completePackage, symbol: completeSymbol },
+      }),
+      {
+        title: "Julia documentation",
+        description: "Docstring of a symbol, e.g. juliadoc://doc/Base/sort",
+        mimeType: "text/markdown",
+      },
+      async (uri, variables) => {
+        const doc = await this.fetchDoc(env(), resourcePath(variables, "module", "symbol"));
+        return markdown(uri, formatDocMarkdown(doc));
+      },
+    );
+
+    this.server.registerResource(
+      "julia-source",
+      new ResourceTemplate("juliadoc://source/{module}/{symbol}", {
+        list: undefined,
+        complete: { module: completePackage, symbol: completeSymbol },
+      }),
+      {
+        title: "Julia source code",
+        description: "Source of every method of a symbol, e.g. juliadoc://source/Base/sort",
+        mimeType: "text/markdown",
+      },
+      async (uri, variables) => {
+        const source = await this.fetchSource(env(), resourcePath(variables, "module", "symbol"));
+        return markdown(uri, formatSourceMarkdown(source));
+      },
+    );
+
+    this.server.registerResource(
+      "julia-package",
+      new ResourceTemplate("juliadoc://package/{name}", {
+        list: async () => ({
+          resources: (await this.environmentPackages(env())).map(pkg => ({
+            uri: `juliadoc://package/${pkg.name}`,
+            name: pkg.name,
+            description: `${pkg.exports.length} exported names`,
+            mimeType: "text/markdown",
+          })),
+        }),
+        complete: { name: completePackage },
+      }),
+      {
+        title: "Julia package overview",
+        description: "Package docstring and exported names, e.g. juliadoc://package/LinearAlgebra",
+        mimeType: "text/markdown",
+      },
+      async (uri, variables) => {
+        const path = resourcePath(variables, "name");
+        const [doc, listing] = await Promise.all([this.fetchDoc(env(), path), this.fetchPackage(env(), path)]);
+        return markdown(uri, formatPackageMarkdown(doc, listing));
+      },
     );
   }
 
   // Start the MCP server
   async start(): Promise<void> {
     const transport = new StdioServerTransport();
+    // Shut down when the client disconnects: the worker pipes would otherwise
+    // keep this process, and its Julia processes, alive
+    this.server.server.onclose = () => this.cleanup();
+    process.stdin.on("end", () => this.cleanup());
     await this.server.connect(transport);
-    console.error("Julia Documentation MCP Server running on stdio");
+    log.info("Julia Documentation MCP Server running on stdio");
   }
 
   // Clean up resources when shutting down
   cleanup(): void {
-    // Clear cache
-    this.cache = new Cache<string>(0);
+    // Stop the persistent Julia workers of every environment
+    this.environments.shutdown();
     // Ensure all pending Julia processes are terminated
     process.exit(0);
   }
@@ -575,8 +1955,10 @@ class JuliaDocServer {
 
 // Initialize and start the server
 async function main() {
-  const server = new JuliaDocServer();
-  
+  const config = loadConfig();
+  log.configure(config.logging);
+  const server = new JuliaDocServer(config);
+
   // Handle shutdown signals
   process.on("SIGINT", () => server.cleanup());
   process.on("SIGTERM", () => server.cleanup());
@@ -584,13 +1966,13 @@ async function main() {
   try {
     await server.start();
   } catch (error) {
-    console.error("Fatal error:", error);
+    log.error("Fatal error", error);
     process.exit(1);
   }
 }
 
 // Start the server and handle any startup errors
 main().catch((error) => {
-  console.error("Fatal error in main():", error);
+  log.error(`Fatal error: ${error instanceof Error ? error.message : String(error)}`);
   process.exit(1);
 }); 
\ No newline at end of file
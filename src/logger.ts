@@ -0,0 +1,104 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+
+// Leveled logging to stderr (stdout carries the MCP protocol), optionally
+// forwarded to the client as MCP logging notifications. Messages and data
+// are redacted before they leave the process: values of secret-looking keys,
+// and tokens, credentials in URLs and NAME=value assignments of secret-looking
+// variables anywhere in the text.
+
+export const LOG_LEVELS = ["debug", "info", "warning", "error"] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LoggerOptions {
+  level: LogLevel;
+  format: "text" | "json";
+  // Also send records as notifications/message to the client
+  mcp: boolean;
+}
+
+const REDACTED = "[REDACTED]";
+
+// "auth" but not "author": Authorization, auth_token and X-Auth are secret
+const SECRET_KEY = /token|secret|passw(or)?d|api[-_]?key|auth(?!ors?$)|credential|cookie|private[-_]?key/i;
+
+const SECRET_PATTERNS: [RegExp, string][] = [
+  // GitHub, OpenAI/Anthropic-style, Slack and AWS access keys
+  [/\b(gh[pousr]_[A-Za-z0-9]{20,}|github_pat_\w{20,}|sk-[\w-]{16,}|xox[abprs]-[\w-]{10,}|AKIA[0-9A-Z]{16})\b/g, REDACTED],
+  [/\b(Bearer|Basic|token)\s+[\w.~+/=-]{8,}/gi, `$1 ${REDACTED}`],
+  // user:password@ in URLs
+  [/(\/\/[^/\s:@]+:)[^/\s@]+@/g, `$1${REDACTED}@`],
+  [/\b(\w*(?:TOKEN|SECRET|PASSWORD|PASSWD|API_?KEY|CREDENTIALS?)\w*)=("[^"]*"|'[^']*'|\S+)/gi, `$1=${REDACTED}`],
+];
+
+export function redactText(text: string): string {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+// A JSON-safe copy of log data with secrets removed
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactText(value);
+  if (value instanceof Error) return { name: value.name, message: redactText(value.message) };
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= 5) return "[...]";
+  if (Array.isArray(value)) return value.map(item => redact(item, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+    [key, SECRET_KEY.test(key) ? REDACTED : redact(item, depth + 1)]
+  ));
+}
+
+class Logger {
+  private options: LoggerOptions = { level: "info", format: "text", mcp: false };
+  private server: McpServer | null = null;
+
+  configure(options: LoggerOptions): void {
+    this.options = options;
+  }
+
+  // Forward records to the client once it is connected
+  attach(server: McpServer): void {
+    this.server = server;
+  }
+
+  debug(message: string, data?: unknown): void {
+    this.write("debug", message, data);
+  }
+
+  info(message: string, data?: unknown): void {
+    this.write("info", message, data);
+  }
+
+  warning(message: string, data?: unknown): void {
+    this.write("warning", message, data);
+  }
+
+  error(message: string, data?: unknown): void {
+    this.write("error", message, data);
+  }
+
+  private write(level: LogLevel, message: string, data?: unknown): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.options.level)) return;
+    const text = redactText(message);
+    const details = data === undefined ? undefined : redact(data);
+    const time = new Date().toISOString();
+
+    if (this.options.format === "json") {
+      process.stderr.write(JSON.stringify({ time, level, message: text, data: details }) + "\n");
+    } else {
+      const suffix = details === undefined ? "" :
+        " " + (typeof details === "string" ? details : JSON.stringify(details));
+      process.stderr.write(`${time} [${level}] ${text}${suffix}\n`);
+    }
+
+    if (this.options.mcp && this.server?.isConnected()) {
+      this.server.sendLoggingMessage({
+        level,
+        logger: "juliadoc",
+        data: details === undefined ? text : { message: text, data: details },
+      }).catch(() => {
+        // The client may not accept notifications yet; stderr has the record
+      });
+    }
+  }
+}
+
+export const log = new Logger();
@@ -0,0 +1,362 @@
+import { existsSync, readdirSync, readFileSync } from "fs";
+import { join, resolve, sep } from "path";
+import { JULIA_PATH_PATTERN } from "./schemas.js";
+
+// Package manuals: the Markdown pages under a package's docs/src, ordered by
+// the `pages` argument of docs/make.jl. Everything is read from the local
+// package directory; make.jl is parsed, never run.
+
+// A `pages` entry: a page, a titled page, or a titled section of entries
+export interface PageTree {
+  title: string | null;
+  page: string | null;
+  children: PageTree[];
+}
+
+// Where a package's manual lives, as found by LOCATE_MANUAL_CODE
+export interface LocatedManual {
+  package: string;
+  package_dir: string;
+  docs_dir: string;
+  make_file: string | null;
+  pages: PageTree[] | null;
+}
+
+export interface TocEntry {
+  title: string;
+  page: string | null;
+  depth: number;
+}
+
+// The package directory (as pkgdir would return it, without loading the
+// package) and the `pages` structure of docs/make.jl, read with the parser.
+// Pages may be given directly or through a variable assigned in make.jl.
+export const LOCATE_MANUAL_CODE = `
+  name = args["package"]
+  JuliaDocMCP.check_package(name)
+  pkg = Base.identify_package(name)
+  pkg === nothing && throw(JuliaDocMCP.LookupError("package_not_in_env",
+    "'$name' is not a package in the active environment", JuliaDocMCP.package_suggestions(name)))
+  entry = Base.locate_package(pkg)
+  entry === nothing && throw(JuliaDocMCP.LookupError("load_failed",
+    "Package $name is in the environment but not installed; run Pkg.instantiate()"))
+  dir = dirname(dirname(entry))
+  make = joinpath(dir, "docs", "make.jl")
+
+  function collect_assignments!(assignments, ex)
+    ex isa Expr || return assignments
+    if Meta.isexpr(ex, :(=), 2) && ex.args[1] isa Symbol
+      assignments[ex.args[1]] = ex.args[2]
+    end
+    foreach(a -> collect_assignments!(assignments, a), ex.args)
+    return assignments
+  end
+
+  function find_pages(ex)
+    ex isa Expr || return nothing
+    (Meta.isexpr(ex, :kw, 2) || Meta.isexpr(ex, :(=), 2)) && ex.args[1] === :pages && return ex.args[2]
+    for a in ex.args
+      found = find_pages(a)
+      found === nothing || return found
+    end
+    return nothing
+  end
+
+  function page_list(ex, assignments)
+    ex isa Symbol && haskey(assignments, ex) && return page_list(assignments[ex], assignments)
+    (Meta.isexpr(ex, :vect) || Meta.isexpr(ex, :vcat)) || return nothing
+    return filter(!isnothing, [page_entry(item, assignments) for item in ex.args])
+  end
+
+  # Entries that are not literal strings or pairs (e.g. generated lists) are skipped
+  function page_entry(ex, assignments)
+    ex isa String && return (title = nothing, page = ex, children = [])
+    if Meta.isexpr(ex, :call, 3) && ex.args[1] === :(=>) && ex.args[2] isa String
+      target = ex.args[3]
+      target isa String && return (title = ex.args[2], page = target, children = [])
+      children = page_list(target, assignments)
+      children === nothing || return (title = ex.args[2], page = nothing, children = children)
+    end
+    return nothing
+  end
+
+  pages = nothing
+  if isfile(make)
+    ast = Meta.parseall(read(make, String); filename=make)
+    found = find_pages(ast)
+    found === nothing || (pages = page_list(found, collect_assignments!(Dict{Symbol,Any}(), ast)))
+  end
+
+  JuliaDocMCP.emit((
+    package = name,
+    package_dir = dir,
+    docs_dir = joinpath(dir, "docs", "src"),
+    make_file = isfile(make) ? make : nothing,
+    pages = pages,
+  ))
+`;
+
+// Docstrings of the entries of @docs blocks. Names are looked up in the
+// given module (the page's CurrentModule) first, as Documenter does.
+export const RESOLVE_DOCS_CODE = `
+  current = JuliaDocMCP.resolve_module(args["module"])
+  function docs_for(entry)
+    try
+      segments = JuliaDocMCP.parse_path(entry)
+      path = segments[1] !== nameof(current) && isdefined(current, segments[1]) ?
+        string(args["module"], ".", entry) : entry
+      return (entry = entry, path = path, docstring = string(JuliaDocMCP.doc(path)), error = nothing)
+    catch e
+      return (entry = entry, path = nothing, docstring = nothing, error = sprint(showerror, e))
+    end
+  end
+  JuliaDocMCP.emit([docs_for(entry) for entry in args["entries"]])
+`;
+
+export interface ResolvedDoc {
+  entry: string;
+  path: string | null;
+  docstring: string | null;
+  error: string | null;
+}
+
+export interface ManualRef {
+  text: string;
+  target: string;
+  kind: "docstring" | "section" | "unresolved";
+  // Julia path of a docstring reference
+  path: string | null;
+  // Page and heading anchor of a section reference
+  page: string | null;
+  anchor: string | null;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})\s*(.*)$/;
+const BINDING = new RegExp(`^(${JULIA_PATH_PATTERN})(\\(.*\\))?$`, "u");
+const REF = /\[((?:[^[\]]|\[[^\]]*\])+)\]\(@ref(?:\s+([^)]*?))?\s*\)/g;
+const HEADING_ID = /^\[(.*)\]\(@id\s+([^)]+)\)$/;
+
+// Lines of a Markdown document with the info string of the fenced block each
+// line belongs to (null outside blocks; fence lines themselves included)
+function fencedLines(text: string): { line: string; fence: string | null; delimiter: boolean }[] {
+  const result: { line: string; fence: string | null; delimiter: boolean }[] = [];
+  let open: { marker: string; info: string } | null = null;
+  for (const line of text.split("\n")) {
+    const match = line.match(FENCE);
+    if (!open && match) {
+      open = { marker: match[1], info: match[2].trim() };
+      result.push({ line, fence: open.info, delimiter: true });
+    } else if (open && match && match[1].startsWith(open.marker) && match[2].trim() === "") {
+      result.push({ line, fence: open.info, delimiter: true });
+      open = null;
+    } else {
+      result.push({ line, fence: open?.info ?? null, delimiter: false });
+    }
+  }
+  return result;
+}
+
+// Heading anchor the way Documenter builds it
+export function slugify(text: string): string {
+  return text
+    .replace(/\s+/g, "-")
+    .replace(/&/g, "-and-")
+    .replace(/[^\p{L}\p{P}\d-]+/gu, "")
+    .replace(/--+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+// Heading text without Markdown, and its explicit `@id` if any
+function headingParts(raw: string): { text: string; id: string | null } {
+  const explicit = raw.match(HEADING_ID);
+  const text = (explicit ? explicit[1] : raw).replace(/`/g, "").trim();
+  return { text, id: explicit ? explicit[2].trim() : null };
+}
+
+function headings(text: string): { text: string; anchor: string }[] {
+  return fencedLines(text)
+    .filter(({ line, fence }) => fence === null && /^#{1,6}\s/.test(line))
+    .map(({ line }) => {
+      const { text: heading, id } = headingParts(line.replace(/^#+\s+/, "").replace(/\s+#*\s*$/, ""));
+      return { text: heading, anchor: id ?? slugify(heading) };
+    });
+}
+
+// Every .md file under docs/src, relative to it with forward slashes
+export function markdownFiles(docsDir: string): string[] {
+  const files: string[] = [];
+  const walk = (dir: string, prefix: string) => {
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        walk(join(dir, entry.name), `${prefix}${entry.name}/`);
+      } else if (entry.name.endsWith(".md")) {
+        files.push(prefix + entry.name);
+      }
+    }
+  };
+  walk(docsDir, "");
+  return files.sort((a, b) => (a === "index.md" ? -1 : b === "index.md" ? 1 : a.localeCompare(b)));
+}
+
+export function pageTitle(docsDir: string, page: string): string {
+  const file = join(docsDir, page);
+  const first = existsSync(file) ? headings(readFileSync(file, "utf8"))[0] : undefined;
+  return first?.text ?? page.replace(/\.md$/, "");
+}
+
+// Table of contents in make.jl order, titles of untitled pages taken from
+// their first heading. Without a usable `pages` list, every page is listed.
+export function manualToc(manual: LocatedManual): { toc: TocEntry[]; unlisted: string[] } {
+  const files = markdownFiles(manual.docs_dir);
+  const listed = new Set<string>();
+  const toc: TocEntry[] = [];
+  const add = (entries: PageTree[], depth: number) => {
+    for (const entry of entries) {
+      if (entry.page !== null) listed.add(entry.page);
+      toc.push({
+        title: entry.title ?? (entry.page !== null ? pageTitle(manual.docs_dir, entry.page) : "Untitled"),
+        page: entry.page,
+        depth,
+      });
+      add(entry.children, depth + 1);
+    }
+  };
+  add(manual.pages ?? files.map(page => ({ title: null, page, children: [] })), 0);
+  return { toc, unlisted: files.filter(file => !listed.has(file)) };
+}
+
+// Path of a page relative to docs/src. Accepts "guide", "guide.md" or
+// "docs/src/guide.md", and refuses anything outside docs/src.
+export function manualPagePath(docsDir: string, page: string): string {
+  let normalized = page.replace(/\\/g, "/").replace(/^\.\//, "").replace(/^docs\/src\//, "");
+  if (!normalized.endsWith(".md")) normalized += ".md";
+  const root = resolve(docsDir);
+  const file = resolve(root, normalized);
+  if (!file.startsWith(root + sep)) {
+    throw new Error(`Manual page must be inside ${docsDir}: ${page}`);
+  }
+  if (!existsSync(file)) {
+    const available = markdownFiles(docsDir);
+    throw new Error(`No manual page ${normalized} in ${docsDir}. Pages: ${available.slice(0, 30).join(", ")}` +
+      (available.length > 30 ? ", ..." : ""));
+  }
+  return normalized;
+}
+
+// The page's CurrentModule (from @meta blocks) and the entries of its @docs
+// blocks, with call signatures dropped
+export function pageDocsEntries(text: string): { currentModule: string | null; entries: string[] } {
+  let currentModule: string | null = null;
+  const entries = new Set<string>();
+  for (const { line, fence, delimiter } of fencedLines(text)) {
+    if (delimiter || fence === null) continue;
+    const content = line.trim();
+    if (fence === "@meta") {
+      const match = content.match(/^CurrentModule\s*=\s*(\S+)$/);
+      if (match) currentModule = match[1];
+    } else if (fence === "@docs" && content && !content.startsWith("#")) {
+      entries.add(docsEntry(content));
+    }
+  }
+  return { currentModule, entries: [...entries] };
+}
+
+// Name of a @docs entry or @ref target without its signature, e.g. Base.sort
+// for `Base.sort(::Vector)` and Base.:(==) for `Base.:(==)(a, b)`
+function docsEntry(line: string): string {
+  const quoted = line.indexOf(":(");
+  const paren = line.indexOf("(", quoted >= 0 ? line.indexOf(")", quoted) + 1 : 0);
+  return (paren > 0 ? line.slice(0, paren) : line).trim();
+}
+
+// The page as plain Markdown: @docs blocks replaced by the docstrings they
+// name, @meta and other Documenter-only blocks dropped, @example/@repl/@setup
+// code shown as Julia, and heading `@id`s removed
+export function renderManualPage(text: string, docs: Map<string, ResolvedDoc>): string {
+  const out: string[] = [];
+  for (const { line, fence, delimiter } of fencedLines(text)) {
+    const kind = fence?.split(/\s/)[0] ?? null;
+    if (kind === null) {
+      const heading = line.match(/^(#{1,6})\s+(.*)$/);
+      out.push(heading ? `${heading[1]} ${headingParts(heading[2]).text}` : line);
+    } else if (kind === "@docs") {
+      const content = line.trim();
+      if (delimiter || !content || content.startsWith("#")) continue;
+      const doc = docs.get(docsEntry(content));
+      out.push(`**\`${content}\`**`, "");
+      out.push(doc?.docstring ?? `*Docstring not available${doc?.error ? `: ${doc.error}` : ""}*`, "");
+    } else if (kind === "@autodocs") {
+      if (isOpening(line, delimiter)) {
+        out.push("*Docstrings generated by @autodocs for:*");
+      } else if (!delimiter && line.trim()) {
+        out.push(`- \`${line.trim()}\``);
+      }
+    } else if (["@example", "@repl", "@setup", "@eval"].includes(kind)) {
+      out.push(isOpening(line, delimiter) ? line.replace(/(`{3,}|~{3,})\s*.*$/, "$1julia") : line);
+    } else if (!kind.startsWith("@")) {
+      out.push(line);
+    }
+  }
+  return out.join("\n");
+}
+
+function isOpening(line: string, delimiter: boolean): boolean {
+  return delimiter && line.match(FENCE)![2].trim() !== "";
+}
+
+// Rewrite `[text](@ref)` links: docstring references point to juliadoc://
+// resources, section references to `page.md#anchor` within the manual, and
+// unresolvable ones become plain text. Code blocks are left alone.
+export function resolveRefs(
+  text: string,
+  sections: Map<string, { page: string; anchor: string }>,
+  currentModule: string
+): { text: string; refs: ManualRef[] } {
+  const refs: ManualRef[] = [];
+  const resolveRef = (label: string, explicit: string | undefined): ManualRef => {
+    const code = label.trim().match(/^`([^`]+)`$/);
+    const target = explicit?.trim().replace(/^"(.*)"$/, "$1") || (code ? code[1] : label.trim());
+    const section = sections.get(target) ?? sections.get(slugify(target.replace(/`/g, "")));
+    if (section && !(code && !explicit)) {
+      return { text: label, target, kind: "section", path: null, ...section };
+    }
+    if ((code || explicit) && BINDING.test(target)) {
+      const name = docsEntry(target);
+      const path = name.includes(".") ? name : `${currentModule}.${name}`;
+      return { text: label, target, kind: "docstring", path, page: null, anchor: null };
+    }
+    return { text: label, target, kind: "unresolved", path: null, page: null, anchor: null };
+  };
+
+  const lines = fencedLines(text).map(({ line, fence }) => {
+    if (fence !== null) return line;
+    return line.replace(REF, (_, label: string, explicit: string | undefined) => {
+      const ref = resolveRef(label, explicit);
+      refs.push(ref);
+      if (ref.kind === "docstring") return `[${label}](${docstringUri(ref.path!)})`;
+      if (ref.kind === "section") return `[${label}](${ref.page}#${ref.anchor})`;
+      return label;
+    });
+  });
+  return { text: lines.join("\n"), refs };
+}
+
+function docstringUri(path: string): string {
+  const segments = path.split(".");
+  if (segments.length === 1) return `juliadoc://package/${path}`;
+  const name = segments.pop()!;
+  return `juliadoc://doc/${segments.join(".")}/${encodeURIComponent(name)}`;
+}
+
+// Heading texts and anchors of every page, for resolving section references
+export function manualSections(docsDir: string): Map<string, { page: string; anchor: string }> {
+  const sections = new Map<string, { page: string; anchor: string }>();
+  for (const page of markdownFiles(docsDir)) {
+    for (const heading of headings(readFileSync(join(docsDir, page), "utf8"))) {
+      for (const key of [heading.anchor, heading.text]) {
+        if (!sections.has(key)) sections.set(key, { page, anchor: heading.anchor });
+      }
+    }
+  }
+  return sections;
+}
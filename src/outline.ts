@@ -0,0 +1,356 @@
+import { existsSync, readdirSync } from "fs";
+import { join } from "path";
+import { projectFile, projectName } from "./environments.js";
+import { exploreProject } from "./project.js";
+
+// Outlines and references of local source trees, found by parsing the files
+// (with JuliaSyntax on Julia 1.10 and later) without loading or running any
+// package code, so they work on code that does not load.
+
+// .jl files of a project the Julia code parses, and the package entry file
+// include() is followed from
+export interface SourceTree {
+  package: string | null;
+  root: string;
+  entry: string | null;
+  files: string[];
+}
+
+const SKIPPED_DIRS = new Set(["node_modules", "build", "dist"]);
+
+// Most directory levels searched for .jl files
+const MAX_DEPTH = 8;
+
+function juliaFiles(dir: string, depth = 0): string[] {
+  let children;
+  try {
+    children = readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const child of children.sort((a, b) => a.name.localeCompare(b.name))) {
+    const path = join(dir, child.name);
+    if (child.isDirectory()) {
+      if (depth < MAX_DEPTH && !child.name.startsWith(".") && !SKIPPED_DIRS.has(child.name)) {
+        files.push(...juliaFiles(path, depth + 1));
+      }
+    } else if (child.name.endsWith(".jl")) {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+// The files of a project under `dirs` (e.g. src and ext). A project without
+// any of them, such as a directory of scripts, is searched as a whole.
+export function sourceTree(dir: string, dirs: string[]): SourceTree {
+  const file = projectFile(dir);
+  const name = file ? projectName(file) : null;
+  const entry = name ? join(dir, "src", `${name}.jl`) : null;
+  const roots = dirs.map(sub => join(dir, sub)).filter(existsSync);
+  return {
+    package: name,
+    root: dir,
+    entry: entry && existsSync(entry) ? entry : null,
+    files: (roots.length > 0 ? roots : [dir]).flatMap(root => juliaFiles(root)),
+  };
+}
+
+// Packages of a project's manifest that are dev'd, i.e. tracked by path
+export function devDependencies(dir: string): { name: string; path: string }[] {
+  return exploreProject(dir).packages
+    .filter(pkg => pkg.source?.path)
+    .map(pkg => ({ name: pkg.name, path: pkg.source!.path! }))
+    .filter(pkg => existsSync(pkg.path));
+}
+
+// Parsing and name helpers shared by OUTLINE_CODE and FIND_REFERENCES_CODE.
+// Files are parsed to Expr with their LineNumberNodes; parse errors become
+// :error expressions instead of exceptions, so a file being edited still
+// yields everything before and after the error.
+const SYNTAX_HELPERS = `
+  function parse_file(file, text)
+    if isdefined(Base, :JuliaSyntax)
+      return Base.JuliaSyntax.parseall(Expr, text; filename=file, ignore_errors=true)
+    end
+    return Meta.parseall(text; filename=file)
+  end
+
+  # The call of a method signature, without its where clause and return type
+  function signature_call(sig)
+    while Meta.isexpr(sig, :where) || Meta.isexpr(sig, :(::))
+      sig = sig.args[1]
+    end
+    return Meta.isexpr(sig, :call) ? sig : nothing
+  end
+
+  # Name of a called or defined function: "f", "Base.show", "@time", or
+  # "(::Foo)" for callable objects; nothing for anything else
+  function callee_name(f)
+    f isa Symbol && return string(f)
+    f isa GlobalRef && return string(f.name)
+    if Meta.isexpr(f, :., 2) && f.args[2] isa QuoteNode
+      parent = callee_name(f.args[1])
+      return parent === nothing ? nothing : string(parent, ".", f.args[2].value)
+    end
+    Meta.isexpr(f, :curly) && return callee_name(f.args[1])
+    Meta.isexpr(f, :(::)) && return string("(::", f.args[end], ")")
+    return nothing
+  end
+
+  is_method(ex) = Meta.isexpr(ex, :function) || (Meta.isexpr(ex, :(=), 2) && signature_call(ex.args[1]) !== nothing)
+
+  # Name of the function a method definition adds to; nothing for anonymous
+  # functions
+  function method_name(ex)
+    call = signature_call(ex.args[1])
+    call === nothing && return ex.args[1] isa Symbol ? string(ex.args[1]) : nothing
+    return callee_name(call.args[1])
+  end
+
+  # Line of a definition: the body of a function or macro starts with the
+  # line of its signature
+  function definition_line(ex, line)
+    body = ex.args[end]
+    if Meta.isexpr(body, :block) && !isempty(body.args) && body.args[1] isa LineNumberNode
+      return body.args[1].line
+    end
+    return line
+  end
+
+  # Name of a type in a struct or type header such as Foo{T} <: Bar
+  function type_name(ex)
+    Meta.isexpr(ex, :<:) && (ex = ex.args[1])
+    Meta.isexpr(ex, :curly) && (ex = ex.args[1])
+    return string(ex)
+  end
+
+  is_doc_macro(name) = name === Symbol("@doc") || (name isa GlobalRef && name.name === Symbol("@doc"))
+
+  # Line of the definition a docstring starting on \`line\` documents
+  function documented_line(doc, line)
+    doc isa String || return line + 1
+    return line + count(==('\\n'), doc) + (occursin('\\n', doc) ? 2 : 1)
+  end
+`;
+
+// Modules, includes, types, functions, macros, consts, exports and public
+// names of a project. include() calls with a literal path are followed from
+// the package's entry file, which gives every entry its module; files not
+// reached that way are outlined without one.
+export const OUTLINE_CODE = SYNTAX_HELPERS + `
+  root = args["root"]
+  entries = Dict{String,Any}[]
+  parse_errors = Dict{String,Any}[]
+  parsed = String[]
+
+  function add(kind, name, mod, file, line; signature=nothing)
+    push!(entries, Dict{String,Any}("kind" => kind, "name" => name, "module" => mod,
+      "file" => relpath(file, root), "line" => line, "signature" => signature))
+  end
+
+  function outline_file(file, mod)
+    file = normpath(file)
+    file in parsed && return
+    push!(parsed, file)
+    ast = try
+      parse_file(file, read(file, String))
+    catch e
+      push!(parse_errors, Dict{String,Any}("file" => relpath(file, root), "line" => nothing,
+        "message" => sprint(showerror, e)))
+      return
+    end
+    outline(ast, file, mod, 1)
+  end
+
+  # Definitions at top level and in module bodies; function bodies are not
+  # entered
+  function outline(ex, file, mod, line)
+    ex isa Expr || return
+    head = ex.head
+    if head === :toplevel || head === :block
+      for arg in ex.args
+        if arg isa LineNumberNode
+          line = arg.line
+        else
+          outline(arg, file, mod, line)
+        end
+      end
+    elseif head === :error || head === :incomplete
+      push!(parse_errors, Dict{String,Any}("file" => relpath(file, root), "line" => line, "message" => "syntax error"))
+    elseif head === :module
+      name = string(ex.args[2])
+      add("module", name, mod, file, line)
+      outline(ex.args[3], file, mod === nothing ? name : string(mod, ".", name), line)
+    elseif head === :macrocall
+      line = length(ex.args) >= 2 && ex.args[2] isa LineNumberNode ? ex.args[2].line : line
+      rest = ex.args[3:end]
+      if is_doc_macro(ex.args[1]) && length(rest) == 2
+        outline(rest[2], file, mod, documented_line(rest[1], line))
+      else
+        # Definitions wrapped in @inline, Base.@kwdef, @static if and the like
+        foreach(arg -> outline(arg, file, mod, line), rest)
+      end
+    elseif head === :struct
+      add(ex.args[1] ? "mutable struct" : "struct", type_name(ex.args[2]), mod, file, line; signature=string(ex.args[2]))
+    elseif head === :abstract
+      add("abstract type", type_name(ex.args[1]), mod, file, line; signature=string(ex.args[1]))
+    elseif head === :primitive
+      add("primitive type", type_name(ex.args[1]), mod, file, line; signature=string(ex.args[1], " ", ex.args[2]))
+    elseif is_method(ex)
+      name = method_name(ex)
+      name === nothing && return
+      call = signature_call(ex.args[1])
+      add("function", name, mod, file, definition_line(ex, line); signature=call === nothing ? nothing : string(ex.args[1]))
+    elseif head === :macro
+      call = ex.args[1]
+      Meta.isexpr(call, :call) || return
+      add("macro", string("@", call.args[1]), mod, file, definition_line(ex, line); signature=string("@", call))
+    elseif head === :const
+      target = Meta.isexpr(ex.args[1], :(=)) ? ex.args[1].args[1] : ex.args[1]
+      Meta.isexpr(target, :(::)) && (target = target.args[1])
+      names = Meta.isexpr(target, :tuple) ? target.args : [target]
+      for name in names
+        name isa Symbol && add("const", string(name), mod, file, line)
+      end
+    elseif head === :export || head === :public
+      for name in ex.args
+        name isa Symbol && add(string(head), string(name), mod, file, line)
+      end
+    elseif head === :call && ex.args[1] === :include && length(ex.args) == 2 && ex.args[2] isa String
+      add("include", ex.args[2], mod, file, line)
+      target = joinpath(dirname(file), ex.args[2])
+      isfile(target) && outline_file(target, mod)
+    elseif head === :if || head === :elseif
+      foreach(arg -> outline(arg, file, mod, line), ex.args[2:end])
+    end
+  end
+
+  args["entry"] === nothing || outline_file(args["entry"], args["package"])
+  foreach(file -> outline_file(file, nothing), args["files"])
+  JuliaDocMCP.emit((
+    files = [relpath(file, root) for file in parsed],
+    entries = entries,
+    parse_errors = parse_errors,
+  ))
+`;
+
+// Call sites (including macro calls and broadcasts), method definitions,
+// subtype declarations and imports of a name in every file of `sources`.
+// Without loading the code, names cannot be resolved: an unqualified `show`
+// matches a query for Base.show, while Other.show does not.
+export const FIND_REFERENCES_CODE = SYNTAX_HELPERS + `
+  wanted = split(args["name"], ".")
+  kinds = args["kinds"]
+  max_results = args["max_results"]
+  references = Dict{String,Any}[]
+  parse_errors = Dict{String,Any}[]
+  total = Ref(0)
+
+  function name_matches(found)
+    found === nothing && return false
+    parts = split(found, ".")
+    last(parts) == last(wanted) || return false
+    n = min(length(parts), length(wanted)) - 1
+    return parts[end-n:end] == wanted[end-n:end]
+  end
+
+  is_identifier_char(c) = isletter(c) || isdigit(c) || c == '_' || c == '!'
+
+  # Whether a line mentions the name as a whole identifier
+  function mentions(text, name)
+    i = firstindex(text)
+    while (r = findnext(name, text, i)) !== nothing
+      before = first(r) == firstindex(text) ? ' ' : text[prevind(text, first(r))]
+      after = last(r) == lastindex(text) ? ' ' : text[nextind(text, last(r))]
+      !is_identifier_char(before) && !is_identifier_char(after) && return true
+      i = nextind(text, first(r))
+    end
+    return false
+  end
+
+  # Expressions only know the line their statement starts on; the reference
+  # is on the first line of the statement that mentions the name
+  function add(kind, source, file, lines, line, stop)
+    kind in kinds || return
+    total[] += 1
+    length(references) < max_results || return
+    name = replace(last(wanted), "@" => "")
+    found = something(findfirst(l -> mentions(lines[l], name), line:min(stop, length(lines))), 1) + line - 1
+    code = strip(get(lines, found, ""))
+    push!(references, Dict{String,Any}("kind" => kind, "package" => source["package"],
+      "file" => relpath(file, source["root"]), "line" => found,
+      "code" => length(code) > 200 ? string(first(code, 200), "…") : code))
+  end
+
+  # Dotted names a using or import statement brings in
+  function imported_names(ex)
+    names = String[]
+    for arg in ex.args
+      if Meta.isexpr(arg, :(:))
+        base = join(string.(arg.args[1].args), ".")
+        for item in arg.args[2:end]
+          Meta.isexpr(item, :.) && push!(names, string(base, ".", join(string.(item.args), ".")))
+        end
+      elseif Meta.isexpr(arg, :.)
+        push!(names, join(string.(arg.args), "."))
+      end
+    end
+    return names
+  end
+
+  # Every expression, tracking the line a statement starts on and the last
+  # line before the next statement
+  function scan(ex, source, file, lines, line, stop)
+    ex isa Expr || return
+    head = ex.head
+    skip = 0  # Leading arguments not scanned, such as a definition's signature
+    if head === :error || head === :incomplete
+      push!(parse_errors, Dict{String,Any}("file" => relpath(file, source["root"]), "package" => source["package"],
+        "line" => line, "message" => "syntax error"))
+    elseif is_method(ex)
+      name_matches(method_name(ex)) && add("method", source, file, lines, definition_line(ex, line), stop)
+      skip = 1
+    elseif head === :struct || head === :abstract || head === :primitive
+      header = head === :struct ? ex.args[2] : ex.args[1]
+      if Meta.isexpr(header, :<:) && name_matches(type_name(header.args[2]))
+        add("subtype", source, file, lines, line, stop)
+      end
+      skip = head === :struct ? 2 : length(ex.args)
+    elseif head === :macro
+      skip = 1
+    elseif head === :using || head === :import
+      any(name_matches, imported_names(ex)) && add("import", source, file, lines, line, stop)
+      skip = length(ex.args)
+    elseif head === :call || head === :macrocall
+      at = head === :macrocall && ex.args[2] isa LineNumberNode ? ex.args[2].line : line
+      name_matches(callee_name(ex.args[1])) && add("call", source, file, lines, at, stop)
+    elseif head === :. && length(ex.args) == 2 && Meta.isexpr(ex.args[2], :tuple)
+      # Broadcast call f.(x)
+      name_matches(callee_name(ex.args[1])) && add("call", source, file, lines, line, stop)
+    end
+    statement_stop = stop
+    for i in skip+1:length(ex.args)
+      arg = ex.args[i]
+      if arg isa LineNumberNode
+        line = arg.line
+        next = findnext(a -> a isa LineNumberNode, ex.args, i + 1)
+        statement_stop = next === nothing ? stop : max(line, ex.args[next].line - 1)
+      else
+        scan(arg, source, file, lines, line, statement_stop)
+      end
+    end
+  end
+
+  for source in args["sources"], file in source["files"]
+    try
+      text = read(file, String)
+      scan(parse_file(file, text), source, file, split(text, '\\n'), 1, typemax(Int))
+    catch e
+      push!(parse_errors, Dict{String,Any}("file" => relpath(file, source["root"]), "package" => source["package"],
+        "line" => nothing, "message" => sprint(showerror, e)))
+    end
+  end
+  JuliaDocMCP.emit((references = references, total = total[], parse_errors = parse_errors))
+`;
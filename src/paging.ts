@@ -0,0 +1,203 @@
+import { createHash, randomUUID } from "crypto";
+import { z } from "zod";
+
+// Output budgets for tool results. A result whose text exceeds the caller's
+// character budget is split into pages: tools that return a list are paged by
+// items (each page formatted like a complete result), anything else by lines
+// of text. Full results are kept in memory for a while so later pages of
+// uncached tools are consistent and cheap; a cursor outliving its stored
+// result recomputes it from the same arguments.
+
+export const pageInfoSchema = z.object({
+  unit: z.enum(["items", "chars"]).describe("items: entries of the paged list; chars: characters of the text"),
+  field: z.string().nullable().describe("Name of the paged list, when paging by items"),
+  offset: z.number().int(),
+  count: z.number().int(),
+  total: z.number().int(),
+  next_cursor: z.string().nullable().describe("Pass as `cursor`, with the same arguments, for the next page"),
+  truncated: z.boolean().describe("Whether long strings and lists outside the paged items were cut to fit the budget"),
+}).describe("Present when the result did not fit in char_budget");
+
+export type PageInfo = z.infer<typeof pageInfoSchema>;
+
+// How to page a tool's result by items: the list to split and the formatter
+// producing the text of a partial result
+export interface Paging<T> {
+  field: keyof T & string;
+  format: (result: T) => string;
+}
+
+interface Cursor {
+  id: string;
+  tool: string;
+  args: string;
+  offset: number;
+}
+
+interface StoredResult {
+  structured: Record<string, unknown>;
+  text: string;
+  stored: number;
+}
+
+const MAX_STORED = 20;
+const STORED_TTL_MS = 15 * 60 * 1000;
+
+// Room left under the budget for the continuation hint
+const HINT_RESERVE = 300;
+
+// Shortest strings and lists structured content is cut to
+const MIN_CUT = 16;
+
+// Stable hash of tool arguments, so a cursor is only accepted with the
+// arguments it was issued for
+export function argumentsKey(args: Record<string, unknown>): string {
+  const sorted = Object.fromEntries(Object.entries(args).sort(([a], [b]) => a.localeCompare(b)));
+  return createHash("sha256").update(JSON.stringify(sorted)).digest("hex").slice(0, 16);
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString()) as Cursor;
+    if (typeof cursor.id === "string" && typeof cursor.offset === "number" && cursor.offset >= 0) {
+      return cursor;
+    }
+  } catch {
+    // Reported below
+  }
+  throw invalidCursor();
+}
+
+function invalidCursor(): Error {
+  return new Error("Invalid cursor: pass the next_cursor value of a previous page unchanged");
+}
+
+// A copy of a value with strings longer than `limit` cut, and lists cut to
+// the items whose JSON fits in `limit`
+function cut(value: unknown, limit: number): unknown {
+  if (typeof value === "string") return value.length > limit ? value.slice(0, limit) + "…" : value;
+  if (Array.isArray(value)) {
+    const items: unknown[] = [];
+    let size = 0;
+    for (const item of value) {
+      const shortened = cut(item, limit);
+      size += JSON.stringify(shortened)?.length ?? 0;
+      if (size > limit && items.length > 0) break;
+      items.push(shortened);
+    }
+    return items;
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, cut(field, limit)]));
+  }
+  return value;
+}
+
+// Structured content of a result paged by text, cut until its JSON fits in
+// `room` as well; the text pages carry what was cut
+function shortened<T extends Record<string, unknown>>(structured: T, room: number): { value: T; truncated: boolean } {
+  if (JSON.stringify(structured).length <= room) return { value: structured, truncated: false };
+  let value = structured;
+  for (let limit = room; limit >= MIN_CUT; limit = Math.floor(limit / 2)) {
+    value = cut(structured, limit) as T;
+    if (JSON.stringify(value).length <= room) break;
+  }
+  return { value, truncated: true };
+}
+
+export class ResultPager {
+  private stored = new Map<string, StoredResult>();
+
+  // Where a cursor continues, and the stored result it refers to if it is
+  // still in memory
+  resume(tool: string, args: Record<string, unknown>, cursor: string): { cursor: Cursor; stored: StoredResult | null } {
+    const position = decodeCursor(cursor);
+    if (position.tool !== tool || position.args !== argumentsKey(args)) {
+      throw new Error("This cursor belongs to a different call: repeat the original arguments with it");
+    }
+    const stored = this.stored.get(position.id);
+    return { cursor: position, stored: stored && Date.now() - stored.stored < STORED_TTL_MS ? stored : null };
+  }
+
+  // The page of a result starting at `offset`, or the result unchanged when
+  // it fits in the budget
+  page<T extends Record<string, unknown>>(
+    tool: string,
+    args: Record<string, unknown>,
+    result: { structured: T; text: string },
+    budget: number,
+    offset: number,
+    paging: Paging<T> | undefined,
+    id?: string
+  ): { structured: T & { page?: PageInfo }; text: string } {
+    if (offset === 0 && result.text.length <= budget) {
+      return { structured: result.structured, text: result.text };
+    }
+    id ??= this.store(result);
+    const cursorFor = (next: number) => encodeCursor({ id, tool, args: argumentsKey(args), offset: next });
+    const room = Math.max(budget - HINT_RESERVE, 1);
+
+    const items = paging ? result.structured[paging.field] : undefined;
+    // Cursors only point inside a result; a recomputed result may have shrunk
+    const total = paging && Array.isArray(items) ? items.length : result.text.length;
+    if (offset > 0 && offset >= total) throw invalidCursor();
+    if (paging && Array.isArray(items)) {
+      // The other fields are repeated on every page, so they may take up at
+      // most half of it
+      const { [paging.field]: _, ...fields } = result.structured;
+      const rest = shortened(fields, Math.floor(room / 2));
+      const partial = (count: number) => ({ ...rest.value, [paging.field]: items.slice(offset, offset + count) }) as T;
+      // Largest number of items whose text fits, but always at least one
+      let low = Math.min(1, items.length - offset);
+      let high = items.length - offset;
+      while (low < high) {
+        const mid = Math.ceil((low + high) / 2);
+        if (paging.format(partial(mid)).length <= room) low = mid; else high = mid - 1;
+      }
+      const end = offset + low;
+      const page: PageInfo = {
+        unit: "items", field: paging.field, offset, count: low, total: items.length,
+        next_cursor: end < items.length ? cursorFor(end) : null, truncated: rest.truncated,
+      };
+      const text = paging.format(partial(low)) + "\n\n" +
+        hint(`Showing ${paging.field} ${offset + 1}-${end} of ${items.length}`, page.next_cursor);
+      return { structured: { ...partial(low), page }, text };
+    }
+
+    // Page by whole lines where possible
+    let end = Math.min(offset + room, result.text.length);
+    if (end < result.text.length) {
+      const newline = result.text.lastIndexOf("\n", end);
+      if (newline > offset) end = newline + 1;
+    }
+    const structured = shortened(result.structured, room);
+    const page: PageInfo = {
+      unit: "chars", field: null, offset, count: end - offset, total: result.text.length,
+      next_cursor: end < result.text.length ? cursorFor(end) : null, truncated: structured.truncated,
+    };
+    const text = result.text.slice(offset, end).trimEnd() + "\n\n" +
+      hint(`Showing characters ${offset + 1}-${end} of ${result.text.length}`, page.next_cursor);
+    return { structured: { ...structured.value, page }, text };
+  }
+
+  private store(result: { structured: Record<string, unknown>; text: string }): string {
+    const id = randomUUID();
+    this.stored.set(id, { ...result, stored: Date.now() });
+    // Oldest first, as Maps keep insertion order
+    for (const key of this.stored.keys()) {
+      if (this.stored.size <= MAX_STORED) break;
+      this.stored.delete(key);
+    }
+    return id;
+  }
+}
+
+function hint(shown: string, nextCursor: string | null): string {
+  return nextCursor === null ?
+    `[${shown}; this is the last page]` :
+    `[${shown}. Call again with the same arguments and cursor "${nextCursor}" for more]`;
+}
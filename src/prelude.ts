@@ -0,0 +1,582 @@
+// Julia helpers loaded before any tool code runs, both in persistent workers
+// and in one-shot mode. Tool code never has user input pasted into it: the
+// arguments arrive as JSON, are decoded by `parse_json`, and symbol paths are
+// checked and looked up by `resolve` instead of being evaluated. Results go
+// back the same way, as a JSON line written by `emit`.
+export const JULIA_PRELUDE = String.raw`
+module JuliaDocMCP
+
+struct ValidationError <: Exception
+  msg::String
+end
+Base.showerror(io::IO, e::ValidationError) = print(io, "ValidationError: ", e.msg)
+
+# A failed lookup, with the code the server reports for it and the names the
+# caller may have meant. The codes are package_not_in_env, package_denied,
+# symbol_undefined, ambiguous_method, method_not_found and load_failed.
+struct LookupError <: Exception
+  code::String
+  msg::String
+  suggestions::Vector{String}
+end
+LookupError(code, msg) = LookupError(code, msg, String[])
+Base.showerror(io::IO, e::LookupError) = print(io, e.msg)
+
+# --- Minimal JSON reader for the arguments sent by the server ---
+
+const JSON_ESCAPES = Dict('n' => '\n', 't' => '\t', 'r' => '\r', 'b' => '\b', 'f' => '\f')
+
+function parse_json(s::AbstractString)
+  str = String(s)
+  pos = Ref(1)
+  value = json_value(str, pos)
+  json_skip(str, pos)
+  pos[] > ncodeunits(str) || error("Unexpected trailing characters in JSON arguments")
+  return value
+end
+
+function json_skip(s, pos)
+  while pos[] <= ncodeunits(s) && s[pos[]] in (' ', '\t', '\n', '\r')
+    pos[] += 1
+  end
+end
+
+function json_expect(s, pos, c)
+  json_skip(s, pos)
+  (pos[] <= ncodeunits(s) && s[pos[]] == c) || error("Expected '$c' in JSON arguments")
+  pos[] += 1
+end
+
+function json_value(s, pos)
+  json_skip(s, pos)
+  pos[] <= ncodeunits(s) || error("Unexpected end of JSON arguments")
+  c = s[pos[]]
+  if c == '{'
+    pos[] += 1
+    dict = Dict{String,Any}()
+    json_skip(s, pos)
+    if s[pos[]] == '}'
+      pos[] += 1
+      return dict
+    end
+    while true
+      json_skip(s, pos)
+      key = json_string(s, pos)
+      json_expect(s, pos, ':')
+      dict[key] = json_value(s, pos)
+      json_skip(s, pos)
+      s[pos[]] == ',' || break
+      pos[] += 1
+    end
+    json_expect(s, pos, '}')
+    return dict
+  elseif c == '['
+    pos[] += 1
+    list = Any[]
+    json_skip(s, pos)
+    if s[pos[]] == ']'
+      pos[] += 1
+      return list
+    end
+    while true
+      push!(list, json_value(s, pos))
+      json_skip(s, pos)
+      s[pos[]] == ',' || break
+      pos[] += 1
+    end
+    json_expect(s, pos, ']')
+    return list
+  elseif c == '"'
+    return json_string(s, pos)
+  elseif startswith(SubString(s, pos[]), "true")
+    pos[] += 4
+    return true
+  elseif startswith(SubString(s, pos[]), "false")
+    pos[] += 5
+    return false
+  elseif startswith(SubString(s, pos[]), "null")
+    pos[] += 4
+    return nothing
+  end
+  start = pos[]
+  while pos[] <= ncodeunits(s) && s[pos[]] in "0123456789+-.eE"
+    pos[] += 1
+  end
+  start < pos[] || error("Unexpected character '$c' in JSON arguments")
+  text = s[start:pos[]-1]
+  return something(tryparse(Int, text), parse(Float64, text))
+end
+
+function json_string(s, pos)
+  json_expect(s, pos, '"')
+  io = IOBuffer()
+  while true
+    pos[] <= ncodeunits(s) || error("Unterminated string in JSON arguments")
+    c = s[pos[]]
+    pos[] = nextind(s, pos[])
+    if c == '"'
+      return String(take!(io))
+    elseif c == '\\'
+      e = s[pos[]]
+      pos[] += 1
+      if e == 'u'
+        code = UInt32(parse(UInt16, s[pos[]:pos[]+3]; base=16))
+        pos[] += 4
+        if 0xd800 <= code <= 0xdbff && startswith(SubString(s, pos[]), "\\u")
+          low = UInt32(parse(UInt16, s[pos[]+2:pos[]+5]; base=16))
+          pos[] += 6
+          code = 0x10000 + ((code - 0xd800) << 10) + (low - 0xdc00)
+        end
+        print(io, Char(code))
+      else
+        print(io, get(JSON_ESCAPES, e, e))
+      end
+    else
+      print(io, c)
+    end
+  end
+end
+
+# --- JSON results ---
+
+const RESULT_MARKER = "JULIADOC_RESULT:"
+
+function write_json_string(io::IO, s::AbstractString)
+  print(io, '"')
+  for c in s
+    if c == '"'
+      print(io, "\\\"")
+    elseif c == '\\'
+      print(io, "\\\\")
+    elseif c == '\n'
+      print(io, "\\n")
+    elseif c == '\r'
+      print(io, "\\r")
+    elseif c == '\t'
+      print(io, "\\t")
+    elseif !isvalid(c)
+      print(io, "\\ufffd")
+    elseif c < ' '
+      print(io, "\\u", lpad(string(UInt32(c); base=16), 4, '0'))
+    else
+      print(io, c)
+    end
+  end
+  print(io, '"')
+end
+
+function write_json(io::IO, x)
+  if x === nothing || x === missing
+    print(io, "null")
+  elseif x isa Bool
+    print(io, x ? "true" : "false")
+  elseif x isa Integer
+    print(io, x)
+  elseif x isa AbstractFloat
+    isfinite(x) ? print(io, Float64(x)) : print(io, "null")
+  elseif x isa Union{AbstractString,Symbol}
+    write_json_string(io, string(x))
+  elseif x isa Union{AbstractDict,NamedTuple}
+    print(io, '{')
+    for (i, (k, v)) in enumerate(pairs(x))
+      i > 1 && print(io, ',')
+      write_json_string(io, string(k))
+      print(io, ':')
+      write_json(io, v)
+    end
+    print(io, '}')
+  elseif x isa Union{AbstractVector,Tuple,AbstractSet}
+    print(io, '[')
+    for (i, v) in enumerate(x)
+      i > 1 && print(io, ',')
+      write_json(io, v)
+    end
+    print(io, ']')
+  else
+    write_json_string(io, string(x))
+  end
+end
+
+# Write the tool result on its own marked line, so that anything packages
+# print while loading cannot be mistaken for it
+function emit(result)
+  println()
+  print(stdout, RESULT_MARKER)
+  write_json(stdout, result)
+  println()
+end
+
+# --- Errors ---
+
+const ERROR_MARKER = "JULIADOC_ERROR:"
+
+# Edit distance between two names, counting swapped neighbours as one edit
+function edit_distance(a::AbstractString, b::AbstractString)
+  s, t = collect(lowercase(a)), collect(lowercase(b))
+  m, n = length(s), length(t)
+  d = zeros(Int, m + 1, n + 1)
+  d[:, 1] = 0:m
+  d[1, :] = 0:n
+  for i in 1:m, j in 1:n
+    d[i+1, j+1] = min(d[i, j+1] + 1, d[i+1, j] + 1, d[i, j] + (s[i] == t[j] ? 0 : 1))
+    if i > 1 && j > 1 && s[i] == t[j-1] && s[i-1] == t[j]
+      d[i+1, j+1] = min(d[i+1, j+1], d[i-1, j-1] + 1)
+    end
+  end
+  return d[m+1, n+1]
+end
+
+# Candidates close to a misspelled name, closest first: a few edits away, or
+# containing it
+function suggestions(name, candidates; limit::Int=5)
+  name = string(name)
+  scored = Tuple{Int,String}[]
+  for candidate in unique(string.(candidates))
+    (candidate == name || startswith(candidate, "#")) && continue
+    distance = edit_distance(name, candidate)
+    if distance <= max(1, length(name) ÷ 3) ||
+       (length(name) >= 3 && occursin(lowercase(name), lowercase(candidate)))
+      push!(scored, (distance, candidate))
+    end
+  end
+  return [candidate for (_, candidate) in first(sort!(scored), limit)]
+end
+
+# Names a module-level lookup in mod could have meant
+name_suggestions(name, mod::Module) =
+  suggestions(name, [names(mod; all=true, imported=true); names(Base)])
+
+# Packages of the environment and standard libraries, for suggestions
+function package_names()
+  stdlibs = isdir(Sys.STDLIB) ? filter(d -> isdir(joinpath(Sys.STDLIB, d)), readdir(Sys.STDLIB)) : String[]
+  return [project_dependencies(); filter(package_allowed, stdlibs)]
+end
+
+package_suggestions(name) = suggestions(name, package_names())
+
+# Code and suggestions of an exception for the server's error model
+function error_info(e)
+  e isa LookupError && return (e.code, e.suggestions)
+  e isa ValidationError && return ("invalid_argument", String[])
+  if e isa UndefVarError
+    scope = hasfield(UndefVarError, :scope) && e.scope isa Module ? e.scope : Main
+    return ("symbol_undefined", name_suggestions(e.var, scope))
+  end
+  if e isa ArgumentError
+    missing_package = match(r"Package (\S+) not found in current path", e.msg)
+    missing_package === nothing || return ("package_not_in_env", package_suggestions(missing_package[1]))
+  end
+  if e isa MethodError
+    # Dispatch failing although several methods apply means they are ambiguous
+    candidates = try
+      collect(methods(e.f, Base.typesof(e.args...)))
+    catch
+      Method[]
+    end
+    length(candidates) > 1 && return ("ambiguous_method", [string(m.sig) for m in candidates])
+  end
+  return ("julia_error", String[])
+end
+
+# Describe a failed request on its own marked line, like emit does results
+function report_error(io::IO, e, backtrace)
+  while e isa LoadError
+    e = e.error
+  end
+  code, hints = error_info(e)
+  println(io)
+  print(io, ERROR_MARKER)
+  write_json(io, (
+    code = code,
+    message = sprint(showerror, e),
+    suggestions = hints,
+    backtrace = sprint(Base.show_backtrace, backtrace),
+  ))
+  println(io)
+end
+
+# --- Symbol paths ---
+
+# Segments of a dotted name expression (:(A.B.c) => [:A, :B, :c]), or
+# nothing if the expression is anything else
+function dotted_segments(ex)
+  ex isa Symbol && return Symbol[ex]
+  if Meta.isexpr(ex, :., 2) && ex.args[2] isa QuoteNode && ex.args[2].value isa Symbol
+    segments = dotted_segments(ex.args[1])
+    segments === nothing || push!(segments, ex.args[2].value)
+    return segments
+  end
+  return nothing
+end
+
+# Split "A.B.c" into [:A, :B, :c], accepting only dotted names. A macro
+# ("Base.@time") or quoted operator ("Base.:+") is a segment like any other.
+function parse_path(path::AbstractString)
+  ex = try
+    Meta.parse(path; raise=true)
+  catch
+    throw(ValidationError("'$path' is not a valid Julia path"))
+  end
+  # A macro name parses as a call of the macro without arguments
+  if Meta.isexpr(ex, :macrocall, 2) && ex.args[2] isa LineNumberNode
+    ex = ex.args[1]
+  end
+  segments = dotted_segments(ex)
+  segments === nothing && throw(ValidationError(
+    "'$path' is not a dotted path of names such as 'Base.sort', 'Base.@time' or 'Base.:+'"))
+  return segments
+end
+
+# The package a module belongs to, or nothing for Main, Base, Core and other
+# modules that are not packages
+function package_of(mod::Module)
+  root = Base.moduleroot(mod)
+  return Base.PkgId(root).uuid === nothing ? nothing : nameof(root)
+end
+
+# Top-level name of a path: something visible from Main (Base, Core, exported
+# Base names) or a package in the active environment, which is loaded
+function resolve_root(root::Symbol)
+  if isdefined(Main, root)
+    # Packages already loaded into Main, as in an attached session, and the
+    # names they export are subject to the package policy too
+    obj = getfield(Main, root)
+    pkg = package_of(obj isa Module ? obj : Base.binding_module(Main, root))
+    pkg === nothing || check_package(pkg)
+    return obj
+  end
+  check_package(root)
+  pkg = Base.identify_package(string(root))
+  pkg === nothing && throw(LookupError("package_not_in_env",
+    "'$root' is neither defined in Main nor a package in the active environment",
+    suggestions(root, [names(Base); names(Core); package_names()])))
+  return try
+    Base.require(pkg)
+  catch e
+    throw(LookupError("load_failed", "Package $root failed to load: " * sprint(showerror, e)))
+  end
+end
+
+# Walk a path with getproperty, returning the owning module, the final name
+# and the object itself
+function resolve_binding(path::AbstractString)
+  segments = parse_path(path)
+  parent = Main
+  obj = resolve_root(segments[1])
+  for (i, name) in enumerate(segments[2:end])
+    obj isa Module || throw(ValidationError("'$(join(segments[1:i], "."))' is not a module"))
+    isdefined(obj, name) || throw(LookupError("symbol_undefined", "'$name' is not defined in module $obj",
+      name_suggestions(name, obj)))
+    parent = obj
+    obj = getproperty(obj, name)
+  end
+  return parent, segments[end], obj
+end
+
+resolve(path::AbstractString) = resolve_binding(path)[3]
+
+function resolve_module(path::AbstractString)
+  obj = resolve(path)
+  obj isa Module || throw(ValidationError("'$path' is not a module"))
+  return obj
+end
+
+# Documentation for a path, looked up through its binding so that functions,
+# constants and modules all resolve the same way @doc would
+function doc(path::AbstractString)
+  parent, name, obj = resolve_binding(path)
+  obj isa Module && parent === Main && return Base.Docs.doc(obj)
+  return Base.Docs.doc(Base.Docs.Binding(parent, name))
+end
+
+# --- Type expressions ---
+
+# Value of a dotted name as seen from mod, falling back to Main
+function lookup_name(ex, mod::Module)
+  segments = dotted_segments(ex)
+  segments === nothing && throw(ValidationError("Unsupported type expression '$ex'"))
+  obj = isdefined(mod, segments[1]) ? mod : Main
+  for name in segments
+    (obj isa Module && isdefined(obj, name)) || throw(LookupError("symbol_undefined",
+      "'$(join(segments, "."))' is not defined in $mod", obj isa Module ? name_suggestions(name, obj) : String[]))
+    obj = getfield(obj, name)
+  end
+  return obj
+end
+
+# Build the type an expression such as Vector{<:Real} describes without
+# evaluating it. Only names, curly applications, <:/>: bounds, typeof(name)
+# and literal parameters are accepted.
+function resolve_type(ex, mod::Module)
+  ex isa Union{Integer,Char} && return ex
+  ex isa QuoteNode && ex.value isa Symbol && return ex.value
+  if Meta.isexpr(ex, :call, 2) && ex.args[1] === :typeof
+    return typeof(lookup_name(ex.args[2], mod))
+  elseif Meta.isexpr(ex, :curly)
+    head = resolve_type(ex.args[1], mod)
+    vars = TypeVar[]
+    params = map(ex.args[2:end]) do p
+      if Meta.isexpr(p, :<:, 1) || Meta.isexpr(p, :>:, 1)
+        bound = resolve_type(p.args[1], mod)
+        name = Symbol("T", length(vars) + 1)
+        var = p.head === :<: ? TypeVar(name, Union{}, bound) : TypeVar(name, bound, Any)
+        push!(vars, var)
+        return var
+      end
+      return resolve_type(p, mod)
+    end
+    T = Core.apply_type(head, params...)
+    for var in reverse(vars)
+      T = UnionAll(var, T)
+    end
+    return T
+  end
+  return lookup_name(ex, mod)
+end
+
+# Argument types of a signature such as "sort!(::Vector{Int}, ::Int)" or
+# "(::Vector{Int}, x::Int)", as the tuple type Base.which expects. Types are
+# looked up in mod; keyword arguments are ignored.
+function signature_type(sig::AbstractString, name::Symbol, mod::Module)
+  ex = try
+    Meta.parse(sig; raise=true)
+  catch
+    throw(ValidationError("'$sig' is not a valid signature"))
+  end
+  argexs = if Meta.isexpr(ex, :call)
+    callee = dotted_segments(ex.args[1])
+    (callee !== nothing && last(callee) === name) ||
+      throw(ValidationError("Signature '$sig' does not call $name"))
+    ex.args[2:end]
+  elseif Meta.isexpr(ex, :tuple)
+    ex.args
+  else
+    Any[ex]
+  end
+  argtype(a::Symbol) = Any
+  function argtype(a)
+    Meta.isexpr(a, :..., 1) && return Vararg{argtype(a.args[1])}
+    Meta.isexpr(a, :kw) && return argtype(a.args[1])
+    Meta.isexpr(a, :(::)) && return resolve_type(last(a.args), mod)
+    throw(ValidationError("Unsupported argument '$a' in signature '$sig'"))
+  end
+  return Tuple{[argtype(a) for a in argexs if !Meta.isexpr(a, :parameters)]...}
+end
+
+# The method a call with the given argument types dispatches to, like
+# Base.which, telling ambiguous calls apart from calls no method accepts
+function which_method(f, types::Type)
+  try
+    return which(f, types)
+  catch
+    candidates = collect(methods(f, types))
+    length(candidates) > 1 && throw(LookupError("ambiguous_method",
+      "$(length(candidates)) methods of $f match $types and none is more specific; give more specific argument types",
+      [string(m.sig) for m in candidates]))
+    throw(LookupError("method_not_found", "No method of $f accepts $types",
+      [string(m.sig) for m in first(collect(methods(f)), 10)]))
+  end
+end
+
+# --- Symbol metadata ---
+
+function symbol_kind(obj, name::Symbol=Symbol(""))
+  startswith(string(name), "@") && return "macro"
+  obj isa Module && return "module"
+  if obj isa Type
+    t = Base.unwrap_unionall(obj)
+    t isa DataType || return "type"
+    isabstracttype(t) && return "abstract type"
+    isprimitivetype(t) && return "primitive type"
+    return "struct"
+  end
+  obj isa Function && return "function"
+  return "constant"
+end
+
+# Kind, owning module and export status of the binding behind a path
+function symbol_info(path::AbstractString)
+  parent, name, obj = resolve_binding(path)
+  owner = obj isa Module && parent === Main ? obj : Base.which(parent, name)
+  return Dict{String,Any}(
+    "path" => path,
+    "name" => string(name),
+    "kind" => symbol_kind(obj, name),
+    "module" => string(owner),
+    "exported" => name in names(owner),
+  )
+end
+
+function method_info(m::Method)
+  file, line = try
+    functionloc(m)
+  catch
+    nothing, nothing
+  end
+  return Dict{String,Any}(
+    "signature" => string(m.sig),
+    "module" => string(m.module),
+    "file" => file === nothing ? nothing : string(file),
+    "line" => line,
+  )
+end
+
+# --- Environment ---
+
+# Julia version, active project and its manifest, used to key on-disk caches
+function environment_info()
+  project = Base.active_project()
+  manifest = project === nothing ? nothing : Base.project_file_manifest_path(project)
+  return (julia_version = string(VERSION), project = project, manifest = manifest)
+end
+
+# Names of the direct dependencies of the active project that tools may load
+function project_dependencies()
+  project = Base.active_project()
+  (project === nothing || !isfile(project)) && return String[]
+  return sort!(filter(package_allowed, collect(keys(get(Base.parsed_toml(project), "deps", Dict{String,Any}())))))
+end
+
+# --- Package policy ---
+
+# The server's allow and deny lists, passed in the environment of every Julia
+# process. An empty allow list allows every package that is not denied.
+package_list(variable) = split(get(ENV, variable, ""), ","; keepempty=false)
+
+function package_allowed(name)
+  name = string(name)
+  name in package_list("JULIADOC_DENY_PACKAGES") && return false
+  allow = package_list("JULIADOC_ALLOW_PACKAGES")
+  return isempty(allow) || name in allow
+end
+
+check_package(name) = package_allowed(name) ||
+  throw(LookupError("package_denied", "Package $name is not allowed by the server configuration"))
+
+# Load every direct dependency of the active project, so that tools scanning
+# the loaded modules see them too. Returns the names that failed to load.
+function load_project_packages()
+  skipped = String[]
+  for name in project_dependencies()
+    try
+      Base.require(Base.identify_package(name))
+    catch
+      push!(skipped, name)
+    end
+  end
+  return skipped
+end
+
+end # module JuliaDocMCP
+`;
+
+// Extract the JSON document written by `JuliaDocMCP.emit` from a command's
+// stdout
+export function parseJuliaResult<T>(stdout: string): T {
+  const marker = "JULIADOC_RESULT:";
+  const line = stdout.split("\n").reverse().find(l => l.startsWith(marker));
+  if (!line) {
+    throw new Error(`Julia did not return a result:\n${stdout}`);
+  }
+  return JSON.parse(line.slice(marker.length)) as T;
+}
@@ -0,0 +1,361 @@
+import { readFileSync } from "fs";
+import { dirname, isAbsolute, join } from "path";
+import { parse } from "smol-toml";
+import { projectFile, manifestFile } from "./environments.js";
+import { ExploreProjectResult } from "./results.js";
+
+// Project.toml and Manifest.toml are read here directly, so exploring a
+// project works without Julia and without instantiating it.
+
+type Table = Record<string, unknown>;
+
+// --- Versions and [compat] specifiers, following Pkg's semver rules ---
+
+type Version = [number, number, number];
+
+// Half-open range [lower, upper); a null upper bound is unbounded
+interface VersionRange {
+  lower: Version;
+  upper: Version | null;
+}
+
+// Leading x.y.z of a version, ignoring prerelease and build suffixes
+function parseVersion(text: string): Version | null {
+  const match = text.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/);
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+function compareVersions(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+// Next version after every release matching the first `parts` components,
+// e.g. bump([1, 2, 0], 2) = 1.3.0
+function bump(version: Version, parts: number): Version {
+  if (parts <= 1) return [version[0] + 1, 0, 0];
+  if (parts === 2) return [version[0], version[1] + 1, 0];
+  return [version[0], version[1], version[2] + 1];
+}
+
+const PARTIAL = String.raw`v?(\d+)(?:\.(\d+))?(?:\.(\d+))?`;
+const PLAIN = new RegExp(`^([~^]?)${PARTIAL}$`);
+const INEQUALITY = new RegExp(`^(>=|≥|<|=)\\s*${PARTIAL}$`);
+const HYPHEN = new RegExp(`^${PARTIAL}\\s+-\\s+${PARTIAL}$`);
+
+function partial(groups: (string | undefined)[]): { version: Version; parts: number } {
+  const parts = groups.filter(group => group !== undefined).length;
+  return { version: [Number(groups[0]), Number(groups[1] ?? 0), Number(groups[2] ?? 0)], parts };
+}
+
+function parseRange(spec: string): VersionRange {
+  let match = spec.match(PLAIN);
+  if (match) {
+    const { version, parts } = partial(match.slice(2, 5));
+    if (match[1] === "~") {
+      // Only the patch may change, except in ~0.0.x where nothing may
+      const zero = parts === 3 && version[0] === 0 && version[1] === 0;
+      return { lower: version, upper: bump(version, zero ? 3 : Math.min(parts, 2)) };
+    }
+    // Caret (the default): the first non-zero component may not change
+    const significant = version[0] > 0 || parts === 1 ? 1 : version[1] > 0 || parts === 2 ? 2 : 3;
+    return { lower: version, upper: bump(version, significant) };
+  }
+  match = spec.match(INEQUALITY);
+  if (match) {
+    const { version, parts } = partial(match.slice(2, 5));
+    switch (match[1]) {
+      case "<": return { lower: [0, 0, 0], upper: version };
+      case "=": return { lower: version, upper: bump(version, parts) };
+      default: return { lower: version, upper: null };
+    }
+  }
+  match = spec.match(HYPHEN);
+  if (match) {
+    const lower = partial(match.slice(1, 4)).version;
+    const upper = partial(match.slice(4, 7));
+    return { lower, upper: bump(upper.version, upper.parts) };
+  }
+  throw new Error(`Invalid compat specifier '${spec}'`);
+}
+
+// Whether a version satisfies a compat entry such as "1.2, ^0.9" (a union of
+// ranges). Throws for specifiers Pkg would reject.
+export function satisfiesCompat(version: string, compat: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) throw new Error(`Invalid version '${version}'`);
+  return compat.split(",").map(spec => parseRange(spec.trim())).some(range =>
+    compareVersions(parsed, range.lower) >= 0 && (range.upper === null || compareVersions(parsed, range.upper) < 0)
+  );
+}
+
+// --- Manifest ---
+
+interface ManifestEntry {
+  name: string;
+  uuid: string;
+  version: string | null;
+  // Dependency and weak dependency names mapped to their UUIDs, when known
+  deps: Map<string, string | null>;
+  weakdeps: Map<string, string | null>;
+  extensions: Map<string, string[]>;
+  source: Source | null;
+}
+
+type Source = ExploreProjectResult["dependencies"][number]["source"];
+
+function nameMap(value: unknown): Map<string, string | null> {
+  // Lists of names, or name => UUID tables when names are ambiguous
+  if (Array.isArray(value)) return new Map(value.map(name => [String(name), null]));
+  if (value && typeof value === "object") {
+    return new Map(Object.entries(value).map(([name, uuid]) => [name, String(uuid)]));
+  }
+  return new Map();
+}
+
+function extensionMap(value: unknown): Map<string, string[]> {
+  const extensions = new Map<string, string[]>();
+  for (const [name, triggers] of Object.entries((value ?? {}) as Table)) {
+    extensions.set(name, Array.isArray(triggers) ? triggers.map(String) : [String(triggers)]);
+  }
+  return extensions;
+}
+
+function manifestSource(entry: Table, base: string): Source {
+  if (typeof entry.path === "string") {
+    return { path: isAbsolute(entry.path) ? entry.path : join(base, entry.path), url: null, rev: null };
+  }
+  if (typeof entry["repo-url"] === "string") {
+    const rev = entry["repo-rev"];
+    return { path: null, url: entry["repo-url"], rev: typeof rev === "string" ? rev : null };
+  }
+  return null;
+}
+
+interface Manifest {
+  file: string;
+  format: string;
+  juliaVersion: string | null;
+  entries: ManifestEntry[];
+}
+
+function readManifest(file: string): Manifest {
+  const data = parse(readFileSync(file, "utf8")) as Table;
+  // Format 2.0 nests the entries under [deps]; format 1.0 has them at the top level
+  const format = typeof data.manifest_format === "string" ? data.manifest_format : "1.0";
+  const deps = (format.startsWith("1.") ? data : data.deps ?? {}) as Table;
+  const entries: ManifestEntry[] = [];
+  for (const [name, list] of Object.entries(deps)) {
+    if (!Array.isArray(list)) continue;
+    for (const entry of list as Table[]) {
+      entries.push({
+        name,
+        uuid: String(entry.uuid),
+        version: typeof entry.version === "string" ? entry.version : null,
+        deps: nameMap(entry.deps),
+        weakdeps: nameMap(entry.weakdeps),
+        extensions: extensionMap(entry.extensions),
+        source: manifestSource(entry, dirname(file)),
+      });
+    }
+  }
+  const juliaVersion = typeof data.julia_version === "string" ? data.julia_version : null;
+  return { file, format, juliaVersion, entries };
+}
+
+// --- Exploring a project ---
+
+function stringTable(value: unknown): Record<string, string> {
+  return Object.fromEntries(Object.entries((value ?? {}) as Table).map(([k, v]) => [k, String(v)]));
+}
+
+function projectSource(value: unknown, base: string): Source {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Table;
+  return {
+    path: typeof source.path === "string" ? (isAbsolute(source.path) ? source.path : join(base, source.path)) : null,
+    url: typeof source.url === "string" ? source.url : null,
+    rev: typeof source.rev === "string" ? source.rev : null,
+  };
+}
+
+const MAX_WHY_PATHS = 50;
+
+// Everything explore-project reports about the project in `dir`. With `why`,
+// also every chain of dependencies from the project to that package.
+export function exploreProject(dir: string, why?: string): ExploreProjectResult {
+  const file = projectFile(dir);
+  if (!file) {
+    throw new Error(`No Project.toml found in ${dir}`);
+  }
+  const project = parse(readFileSync(file, "utf8")) as Table;
+  const manifestPath = manifestFile(dir);
+  const manifest = manifestPath ? readManifest(manifestPath) : null;
+
+  const deps = stringTable(project.deps);
+  const weakdeps = stringTable(project.weakdeps);
+  const extras = stringTable(project.extras);
+  const compat = stringTable(project.compat);
+  const sources = (project.sources ?? {}) as Table;
+
+  const byUuid = new Map((manifest?.entries ?? []).map(entry => [entry.uuid, entry]));
+  const byName = new Map<string, ManifestEntry[]>();
+  for (const entry of manifest?.entries ?? []) {
+    byName.set(entry.name, [...(byName.get(entry.name) ?? []), entry]);
+  }
+  // Resolve a dependency name of `entry` to its manifest entry
+  const lookup = (name: string, uuid: string | null): ManifestEntry | undefined =>
+    uuid ? byUuid.get(uuid) : byName.get(name)?.length === 1 ? byName.get(name)![0] : undefined;
+
+  // Direct dependencies, weak dependencies and test-only extras
+  const violations: ExploreProjectResult["compat_violations"] = [];
+  const dependencies: ExploreProjectResult["dependencies"] = [];
+  const kinds = [["direct", deps], ["weak", weakdeps], ["extra", extras]] as const;
+  for (const [kind, table] of kinds) {
+    for (const [name, uuid] of Object.entries(table).sort(([a], [b]) => a.localeCompare(b))) {
+      const entry = byUuid.get(uuid);
+      const version = entry?.version ?? null;
+      const bound = compat[name] ?? null;
+      let satisfied: boolean | null = null;
+      if (bound !== null && version !== null) {
+        try {
+          satisfied = satisfiesCompat(version, bound);
+          if (!satisfied) {
+            violations.push({ name, compat: bound, version, reason: `v${version} is outside the compat bound` });
+          }
+        } catch (error) {
+          violations.push({ name, compat: bound, version, reason: (error as Error).message });
+        }
+      }
+      dependencies.push({
+        name,
+        uuid,
+        kind,
+        version,
+        compat: bound,
+        compat_satisfied: satisfied,
+        source: projectSource(sources[name], dir) ?? entry?.source ?? null,
+      });
+    }
+  }
+
+  const juliaCompat = compat.julia ?? null;
+  if (juliaCompat && manifest?.juliaVersion) {
+    try {
+      if (!satisfiesCompat(manifest.juliaVersion, juliaCompat)) {
+        violations.push({
+          name: "julia",
+          compat: juliaCompat,
+          version: manifest.juliaVersion,
+          reason: `Manifest was resolved with Julia ${manifest.juliaVersion}`,
+        });
+      }
+    } catch (error) {
+      violations.push({ name: "julia", compat: juliaCompat, version: manifest.juliaVersion, reason: (error as Error).message });
+    }
+  }
+
+  // Every manifest package with its distance from the project, found by a
+  // breadth-first walk of the strong dependencies
+  const depth = new Map<string, number>();
+  const queue = Object.values(deps).filter(uuid => byUuid.has(uuid));
+  queue.forEach(uuid => depth.set(uuid, 1));
+  while (queue.length > 0) {
+    const entry = byUuid.get(queue.shift()!)!;
+    for (const [name, uuid] of entry.deps) {
+      const dep = lookup(name, uuid);
+      if (dep && !depth.has(dep.uuid)) {
+        depth.set(dep.uuid, depth.get(entry.uuid)! + 1);
+        queue.push(dep.uuid);
+      }
+    }
+  }
+  const packages = (manifest?.entries ?? []).map(entry => ({
+    name: entry.name,
+    uuid: entry.uuid,
+    version: entry.version,
+    depth: depth.get(entry.uuid) ?? null,
+    dependencies: [...entry.deps.keys()].sort(),
+    weak_dependencies: [...entry.weakdeps.keys()].sort(),
+    extensions: [...entry.extensions].map(([name, triggers]) => ({
+      name,
+      triggers,
+      // An extension loads when all of its triggers are in the environment
+      available: triggers.every(trigger => byName.has(trigger)),
+    })),
+    source: entry.source,
+  })).sort((a, b) => a.name.localeCompare(b.name));
+
+  const targets = Object.entries((project.targets ?? {}) as Table).map(([name, list]) => ({
+    name,
+    dependencies: Array.isArray(list) ? list.map(String) : [],
+  }));
+
+  return {
+    path: dir,
+    project_file: file,
+    manifest_file: manifest?.file ?? null,
+    manifest_format: manifest?.format ?? null,
+    name: typeof project.name === "string" ? project.name : null,
+    uuid: typeof project.uuid === "string" ? project.uuid : null,
+    version: typeof project.version === "string" ? project.version : null,
+    julia: { compat: juliaCompat, manifest_julia_version: manifest?.juliaVersion ?? null },
+    dependencies,
+    extensions: [...extensionMap(project.extensions)].map(([name, triggers]) => ({ name, triggers })),
+    targets,
+    packages,
+    compat_violations: violations,
+    why: why === undefined ? null : {
+      package: why,
+      paths: explain(why, deps, byUuid, lookup),
+    },
+  };
+}
+
+// Every chain of strong dependencies leading from the project to `target`,
+// shortest first, like Pkg.why
+function explain(
+  target: string,
+  deps: Record<string, string>,
+  byUuid: Map<string, ManifestEntry>,
+  lookup: (name: string, uuid: string | null) => ManifestEntry | undefined
+): string[][] {
+  // Only descend into packages that lead to the target, so the walk never
+  // explores dead ends of a large dependency graph
+  const dependents = new Map<string, string[]>();
+  for (const entry of byUuid.values()) {
+    for (const [name, uuid] of entry.deps) {
+      const dep = lookup(name, uuid);
+      if (dep) dependents.set(dep.uuid, [...(dependents.get(dep.uuid) ?? []), entry.uuid]);
+    }
+  }
+  const leadsToTarget = new Set([...byUuid.values()].filter(entry => entry.name === target).map(entry => entry.uuid));
+  const queue = [...leadsToTarget];
+  while (queue.length > 0) {
+    for (const uuid of dependents.get(queue.shift()!) ?? []) {
+      if (!leadsToTarget.has(uuid)) {
+        leadsToTarget.add(uuid);
+        queue.push(uuid);
+      }
+    }
+  }
+
+  const paths: string[][] = [];
+  const walk = (entry: ManifestEntry, chain: string[]) => {
+    if (paths.length >= MAX_WHY_PATHS) return;
+    if (entry.name === target) {
+      paths.push(chain);
+      return;
+    }
+    for (const [name, uuid] of entry.deps) {
+      const dep = lookup(name, uuid);
+      // Skip cycles, which Pkg allows between packages
+      if (dep && leadsToTarget.has(dep.uuid) && !chain.includes(dep.name)) walk(dep, [...chain, dep.name]);
+    }
+  };
+  for (const [name, uuid] of Object.entries(deps).sort(([a], [b]) => a.localeCompare(b))) {
+    const entry = byUuid.get(uuid);
+    if (entry && leadsToTarget.has(uuid)) walk(entry, [name]);
+  }
+  return paths.sort((a, b) => a.length - b.length);
+}
@@ -0,0 +1,1009 @@
+import { z } from "zod";
+
+// Structured results returned by the tools. Each schema doubles as the tool's
+// MCP output schema; the matching format* function renders the text view.
+
+export const symbolKindSchema = z.enum([
+  "module",
+  "function",
+  "macro",
+  "abstract type",
+  "struct",
+  "primitive type",
+  "type",
+  "constant",
+]);
+
+export const methodInfoSchema = z.object({
+  signature: z.string().describe("Method type signature, e.g. Tuple{typeof(sort), AbstractVector}"),
+  module: z.string().describe("Module the method was defined in"),
+  file: z.string().nullable(),
+  line: z.number().int().nullable(),
+});
+
+export const docSectionSchema = z.object({
+  heading: z.string().nullable().describe("Markdown heading, or null for text before the first heading"),
+  content: z.string(),
+});
+
+export const getDocResultSchema = z.object({
+  path: z.string(),
+  name: z.string(),
+  kind: symbolKindSchema,
+  module: z.string().describe("Module that owns the binding"),
+  exported: z.boolean(),
+  docstring: z.string().nullable(),
+  sections: z.array(docSectionSchema),
+  methods: z.array(methodInfoSchema).optional(),
+  fields: z.array(z.object({ name: z.string(), type: z.string() })).optional(),
+  members: z.array(z.object({
+    name: z.string(),
+    kind: symbolKindSchema,
+    docstring: z.string().optional(),
+    summary: z.string().nullable().optional().describe("First sentence of the docstring, in summary mode"),
+  })).optional().describe("Every name in the module, when include_unexported is set or in summary mode"),
+  summary: z.string().nullable().optional().describe("First sentence of the docstring, in summary mode"),
+  omitted: z.string().optional().describe("What summary mode left out, and how to get it"),
+});
+
+export const listPackageResultSchema = z.object({
+  module: z.string(),
+  symbols: z.array(z.object({
+    name: z.string(),
+    kind: symbolKindSchema,
+    type: z.string().optional().describe("typeof() of the bound value"),
+    exported: z.boolean(),
+    summary: z.string().nullable().optional().describe("First sentence of the docstring, in summary mode"),
+  })),
+  omitted: z.string().optional().describe("What summary mode left out, and how to get it"),
+});
+
+const sourceSchema = z.object({
+  path: z.string().nullable().describe("Local path of a dev'd package"),
+  url: z.string().nullable().describe("Repository URL of a package added by URL"),
+  rev: z.string().nullable(),
+}).nullable();
+
+export const exploreProjectResultSchema = z.object({
+  path: z.string(),
+  project_file: z.string(),
+  manifest_file: z.string().nullable(),
+  manifest_format: z.string().nullable(),
+  name: z.string().nullable(),
+  uuid: z.string().nullable(),
+  version: z.string().nullable(),
+  julia: z.object({
+    compat: z.string().nullable(),
+    manifest_julia_version: z.string().nullable().describe("Julia version the manifest was resolved with"),
+  }),
+  dependencies: z.array(z.object({
+    name: z.string(),
+    uuid: z.string(),
+    kind: z.enum(["direct", "weak", "extra"]).describe("[deps], [weakdeps] or [extras] (test-only)"),
+    version: z.string().nullable().describe("Version resolved in Manifest.toml, if present"),
+    compat: z.string().nullable().describe("[compat] bound, if any"),
+    compat_satisfied: z.boolean().nullable(),
+    source: sourceSchema.describe("[sources] entry or dev'd path"),
+  })),
+  extensions: z.array(z.object({ name: z.string(), triggers: z.array(z.string()) })),
+  targets: z.array(z.object({ name: z.string(), dependencies: z.array(z.string()) })),
+  packages: z.array(z.object({
+    name: z.string(),
+    uuid: z.string(),
+    version: z.string().nullable(),
+    depth: z.number().int().nullable()
+      .describe("1 for direct dependencies, 2 for their dependencies, ...; null if only reachable as a weak dependency"),
+    dependencies: z.array(z.string()),
+    weak_dependencies: z.array(z.string()),
+    extensions: z.array(z.object({
+      name: z.string(),
+      triggers: z.array(z.string()),
+      available: z.boolean().describe("Whether every trigger package is in the manifest"),
+    })),
+    source: sourceSchema,
+  })).describe("Every package in Manifest.toml"),
+  compat_violations: z.array(z.object({
+    name: z.string(),
+    compat: z.string(),
+    version: z.string(),
+    reason: z.string(),
+  })),
+  why: z.object({
+    package: z.string(),
+    paths: z.array(z.array(z.string())).describe("Dependency chains from the project to the package"),
+  }).nullable(),
+});
+
+export const sourceMethodSchema = methodInfoSchema.extend({
+  definition: z.object({
+    start_line: z.number().int(),
+    end_line: z.number().int(),
+  }).nullable().describe("Lines of the definition itself, as parsed"),
+  context: z.object({
+    start_line: z.number().int(),
+    end_line: z.number().int(),
+    lines: z.array(z.string()),
+  }).nullable(),
+  error: z.string().nullable(),
+});
+
+export const getSourceResultSchema = z.object({
+  path: z.string(),
+  signature: z.string().nullable(),
+  total_methods: z.number().int().describe("Matching methods before max_methods was applied"),
+  methods: z.array(sourceMethodSchema),
+});
+
+export const searchDocsResultSchema = z.object({
+  query: z.string(),
+  total_matches: z.number().int().describe("Matching docstrings before the limit was applied"),
+  results: z.array(z.object({
+    path: z.string(),
+    name: z.string(),
+    module: z.string(),
+    package: z.string(),
+    kind: symbolKindSchema,
+    score: z.number(),
+    snippet: z.string(),
+  })),
+  index: z.object({
+    entries: z.number().int(),
+    built_at: z.string(),
+    skipped_packages: z.array(z.string()).describe("Packages that could not be loaded while indexing"),
+  }),
+});
+
+export const cacheStatsResultSchema = z.object({
+  directory: z.string(),
+  entries: z.number().int(),
+  bytes: z.number().int(),
+  max_entries: z.number().int(),
+  max_bytes: z.number().int(),
+  hits: z.number().int().describe("Cache hits since the server started"),
+  misses: z.number().int(),
+  current_environment: z.string().nullable().describe("Key of the active environment's namespace"),
+  environments: z.array(z.object({
+    key: z.string(),
+    julia_version: z.string(),
+    project: z.string().nullable(),
+    entries: z.number().int(),
+    bytes: z.number().int(),
+  })),
+});
+
+export const clearCacheResultSchema = z.object({
+  scope: z.enum(["current", "all"]),
+  removed_entries: z.number().int(),
+});
+
+export const listEnvironmentsResultSchema = z.object({
+  environments: z.array(z.object({
+    path: z.string().describe("Project directory, usable as the `project` argument"),
+    name: z.string().nullable().describe("Package name, if the project is a package"),
+    source: z.enum(["workspace", "depot", "default"]),
+    has_manifest: z.boolean(),
+    active: z.boolean().describe("Whether this is the environment used when no `project` is given"),
+  })),
+});
+
+export const typeInfoResultSchema = z.object({
+  path: z.string(),
+  name: z.string(),
+  module: z.string(),
+  kind: symbolKindSchema,
+  abstract: z.boolean(),
+  concrete: z.boolean(),
+  mutable: z.boolean(),
+  bits: z.boolean().describe("isbitstype: immutable with only plain-data fields"),
+  primitive: z.boolean(),
+  parametric: z.boolean().describe("Whether the type is a UnionAll with free parameters"),
+  parameters: z.array(z.object({
+    name: z.string(),
+    lower: z.string().describe("Lower bound, Union{} if unbounded"),
+    upper: z.string().describe("Upper bound, Any if unbounded"),
+  })),
+  supertypes: z.array(z.string()).describe("Supertype chain, from the direct supertype up to Any"),
+  fields: z.array(z.object({
+    name: z.string(),
+    type: z.string(),
+    constant: z.boolean().describe("A const field of a mutable struct"),
+  })),
+  union_members: z.array(z.string()).describe("Members of a Union type"),
+  subtypes: z.array(z.object({
+    name: z.string(),
+    parent: z.string(),
+    depth: z.number().int().describe("1 for direct subtypes"),
+    module: z.string(),
+    abstract: z.boolean(),
+    has_subtypes: z.boolean(),
+  })).describe("Subtype tree in depth-first order"),
+  subtypes_truncated: z.boolean(),
+  constructors: z.array(methodInfoSchema),
+  total_constructors: z.number().int(),
+  skipped_packages: z.array(z.string()).describe("Project packages that could not be loaded when collecting subtypes"),
+});
+
+export const methodsWithResultSchema = z.object({
+  type: z.string(),
+  include_supertypes: z.boolean(),
+  total_methods: z.number().int().describe("Matching methods before max_methods was applied"),
+  truncated: z.boolean(),
+  modules: z.array(z.object({
+    module: z.string().describe("Module owning the functions"),
+    functions: z.array(z.object({
+      name: z.string(),
+      methods: z.array(methodInfoSchema),
+    })),
+  })),
+  ambiguities: z.array(z.object({
+    function: z.string(),
+    method: methodInfoSchema.describe("Method taking the type"),
+    other: methodInfoSchema.describe("Method it is ambiguous with"),
+  })).describe("Ambiguous method pairs involving the type, when check_ambiguities is set"),
+  skipped_packages: z.array(z.string()),
+});
+
+export const codeViewSchema = z.enum(["warntype", "lowered", "typed", "llvm", "native"]);
+
+export const inspectCodeResultSchema = z.object({
+  path: z.string(),
+  signature: z.string(),
+  method: methodInfoSchema.describe("The method the call dispatches to"),
+  return_type: z.string().describe("Inferred return type"),
+  warnings: z.array(z.object({
+    kind: z.enum(["return", "variable", "expression"]),
+    name: z.string().describe("Variable name, or SSA value such as %12"),
+    type: z.string(),
+    severity: z.enum(["error", "warning"])
+      .describe("error: abstract type such as Any (red in @code_warntype); warning: small Union (yellow)"),
+    statement: z.string().nullable().describe("The lowered statement producing an expression"),
+  })).describe("Type instabilities found by inference, as highlighted by @code_warntype"),
+  views: z.array(z.object({
+    view: codeViewSchema,
+    text: z.string(),
+    truncated: z.boolean(),
+    total_chars: z.number().int(),
+  })),
+});
+
+export const runSnippetResultSchema = z.object({
+  status: z.enum(["ok", "error", "timeout", "memory_limit", "output_limit", "crashed"]),
+  stdout: z.string(),
+  stderr: z.string(),
+  stdout_truncated: z.boolean(),
+  stderr_truncated: z.boolean(),
+  value: z.string().nullable().describe("repr of the value of the last expression"),
+  value_type: z.string().nullable(),
+  exception: z.string().nullable(),
+  backtrace: z.string().nullable(),
+  exit_code: z.number().int().nullable(),
+  duration_ms: z.number().int(),
+});
+
+export const checkDoctestsResultSchema = z.object({
+  path: z.string(),
+  total_blocks: z.number().int().describe("Doctest blocks found, including those not run"),
+  passed: z.number().int(),
+  failed: z.number().int().describe("Blocks whose output differs, that threw without expecting to, or could not run"),
+  skipped_blocks: z.number().int().describe("Blocks beyond max_blocks that were not run"),
+  blocks: z.array(z.object({
+    binding: z.string().describe("The documented binding, e.g. Base.sort"),
+    name: z.string().nullable().describe("Doctest name; blocks with the same name share a sandbox module"),
+    source: z.enum(["jldoctest", "example"]).describe("example: a julia> block outside a jldoctest fence"),
+    kind: z.enum(["repl", "script"]),
+    status: z.enum(["passed", "failed", "error"]).describe("error: setup failed or the block is malformed"),
+    code: z.string(),
+    expected: z.string().describe("Expected output after filters"),
+    actual: z.string().nullable().describe("Actual output after filters"),
+    diff: z.string().nullable().describe("Line diff: '-' expected, '+' actual"),
+    message: z.string().nullable(),
+  })),
+});
+
+export const listManualResultSchema = z.object({
+  package: z.string(),
+  package_dir: z.string(),
+  docs_dir: z.string(),
+  make_file: z.string().nullable(),
+  toc_source: z.enum(["make.jl", "directory"])
+    .describe("make.jl: ordered by the pages argument of docs/make.jl; directory: every page, by path"),
+  toc: z.array(z.object({
+    title: z.string(),
+    page: z.string().nullable().describe("Path relative to docs/src; null for section headings"),
+    depth: z.number().int(),
+  })),
+  unlisted: z.array(z.string()).describe("Pages in docs/src missing from the table of contents"),
+});
+
+export const getManualPageResultSchema = z.object({
+  package: z.string(),
+  page: z.string().describe("Path relative to docs/src"),
+  title: z.string(),
+  file: z.string(),
+  content: z.string().describe("Markdown with @docs blocks replaced by docstrings and @ref links resolved"),
+  docs: z.array(z.object({
+    entry: z.string().describe("Entry of an @docs block"),
+    path: z.string().nullable().describe("Julia path it resolved to"),
+    found: z.boolean(),
+    error: z.string().nullable(),
+  })),
+  refs: z.array(z.object({
+    text: z.string(),
+    target: z.string(),
+    kind: z.enum(["docstring", "section", "unresolved"]),
+    path: z.string().nullable().describe("Julia path of a docstring reference"),
+    page: z.string().nullable().describe("Page of a section reference"),
+    anchor: z.string().nullable(),
+  })),
+});
+
+export const listJuliaVersionsResultSchema = z.object({
+  installations: z.array(z.object({
+    version: z.string(),
+    executable: z.string(),
+    source: z.enum(["juliaup", "tarball", "app", "path", "configured"]),
+    channels: z.array(z.string()).describe("juliaup channels running this version; usable as julia_version"),
+    default: z.boolean().describe("Whether this Julia runs calls without julia_version"),
+  })),
+});
+
+const comparedVersionSchema = z.object({
+  julia_version: z.string().describe("Version or channel as requested"),
+  version: z.string().describe("Julia version that ran"),
+  defined: z.boolean().describe("Whether the symbol exists in this version"),
+});
+
+export const compareDocsResultSchema = z.object({
+  path: z.string(),
+  from: comparedVersionSchema,
+  to: comparedVersionSchema,
+  docstring: z.object({
+    identical: z.boolean(),
+    diff: z.string().nullable().describe("Line diff, '-' for lines only in `from` and '+' for lines only in `to`"),
+  }).nullable().describe("Null when only methods were compared"),
+  methods: z.object({
+    removed: z.array(z.string()).describe("Signatures only in `from`"),
+    added: z.array(z.string()).describe("Signatures only in `to`"),
+    unchanged: z.number().int(),
+  }).nullable().describe("Null when only docstrings were compared"),
+});
+
+export const outlineKindSchema = z.enum([
+  "module", "include", "struct", "mutable struct", "abstract type", "primitive type",
+  "function", "macro", "const", "export", "public",
+]);
+
+const parseErrorSchema = z.object({
+  file: z.string(),
+  line: z.number().int().nullable(),
+  message: z.string(),
+});
+
+export const outlineResultSchema = z.object({
+  project: z.string(),
+  package: z.string().nullable(),
+  files: z.array(z.string()).describe("Files parsed, relative to the project"),
+  entries: z.array(z.object({
+    kind: outlineKindSchema,
+    name: z.string().describe("Name; the path as written for includes"),
+    module: z.string().nullable()
+      .describe("Module the entry is defined in; null in files not reached through include() from the package's entry file"),
+    file: z.string().describe("File relative to the project"),
+    line: z.number().int(),
+    signature: z.string().nullable().describe("Method signature, macro call or type header as written"),
+  })),
+  parse_errors: z.array(parseErrorSchema).describe("Syntax errors; the rest of a file is still outlined"),
+});
+
+export const referenceKindSchema = z.enum(["call", "method", "subtype", "import"]);
+
+export const findReferencesResultSchema = z.object({
+  name: z.string(),
+  sources: z.array(z.object({
+    package: z.string().nullable(),
+    root: z.string(),
+    dev_dependency: z.boolean(),
+    files: z.number().int(),
+  })).describe("Projects searched: the project and its dev'd dependencies"),
+  references: z.array(z.object({
+    kind: referenceKindSchema
+      .describe("call: call site, macro call or broadcast; method: method definition; subtype: declared subtype; import: using or import"),
+    package: z.string().nullable(),
+    file: z.string().describe("File relative to the root of its source"),
+    line: z.number().int(),
+    code: z.string().describe("The source line"),
+  })),
+  total: z.number().int().describe("References found, including those beyond max_results"),
+  parse_errors: z.array(parseErrorSchema.extend({ package: z.string().nullable() })),
+});
+
+export const apiFlagSchema = z.enum(["undocumented", "arguments_not_mentioned", "documented_unexported"]);
+
+export const apiReportResultSchema = z.object({
+  module: z.string(),
+  format: z.enum(["markdown", "json"]).describe("Format of the text content"),
+  summary: z.object({
+    public: z.number().int().describe("Exported and public names"),
+    documented: z.number().int().describe("Exported and public names with a docstring"),
+    coverage: z.number().nullable().describe("Share of exported and public names with a docstring, null without any"),
+    flagged: z.object({
+      undocumented: z.number().int(),
+      arguments_not_mentioned: z.number().int(),
+      documented_unexported: z.number().int(),
+    }).describe("Names with each flag"),
+  }),
+  symbols: z.array(z.object({
+    name: z.string(),
+    kind: symbolKindSchema,
+    exported: z.boolean(),
+    public: z.boolean().describe("Exported, or declared public (Julia 1.11)"),
+    documented: z.boolean(),
+    docstrings: z.number().int().describe("Docstrings attached to the name, e.g. one per documented method"),
+    flags: z.array(apiFlagSchema).describe("undocumented: public without docstring; arguments_not_mentioned: a " +
+      "docstring mentions none of its methods' argument names; documented_unexported: documented but not public"),
+    unmentioned: z.array(z.string()).describe("Signatures of the docstrings that mention no argument name"),
+  })).describe("Exported and public names, and unexported ones that are documented"),
+});
+
+export type SymbolKind = z.infer<typeof symbolKindSchema>;
+export type MethodInfo = z.infer<typeof methodInfoSchema>;
+export type DocSection = z.infer<typeof docSectionSchema>;
+export type GetDocResult = z.infer<typeof getDocResultSchema>;
+export type ListPackageResult = z.infer<typeof listPackageResultSchema>;
+export type ExploreProjectResult = z.infer<typeof exploreProjectResultSchema>;
+export type SourceMethod = z.infer<typeof sourceMethodSchema>;
+export type GetSourceResult = z.infer<typeof getSourceResultSchema>;
+export type SearchDocsResult = z.infer<typeof searchDocsResultSchema>;
+export type CacheStatsResult = z.infer<typeof cacheStatsResultSchema>;
+export type ClearCacheResult = z.infer<typeof clearCacheResultSchema>;
+export type TypeInfoResult = z.infer<typeof typeInfoResultSchema>;
+export type MethodsWithResult = z.infer<typeof methodsWithResultSchema>;
+export type CodeView = z.infer<typeof codeViewSchema>;
+export type InspectCodeResult = z.infer<typeof inspectCodeResultSchema>;
+export type RunSnippetResult = z.infer<typeof runSnippetResultSchema>;
+export type CheckDoctestsResult = z.infer<typeof checkDoctestsResultSchema>;
+export type ListManualResult = z.infer<typeof listManualResultSchema>;
+export type GetManualPageResult = z.infer<typeof getManualPageResultSchema>;
+export type ListEnvironmentsResult = z.infer<typeof listEnvironmentsResultSchema>;
+export type ListJuliaVersionsResult = z.infer<typeof listJuliaVersionsResultSchema>;
+export type CompareDocsResult = z.infer<typeof compareDocsResultSchema>;
+export type OutlineResult = z.infer<typeof outlineResultSchema>;
+export type FindReferencesResult = z.infer<typeof findReferencesResultSchema>;
+export type ApiReportResult = z.infer<typeof apiReportResultSchema>;
+
+const RULE = "-".repeat(40);
+
+// Split a markdown docstring at its headings, ignoring `#` lines inside code
+// blocks (which are Julia comments)
+export function splitDocSections(docstring: string): DocSection[] {
+  const sections: DocSection[] = [];
+  let current: { heading: string | null; lines: string[] } = { heading: null, lines: [] };
+  let inCode = false;
+
+  const flush = () => {
+    const content = current.lines.join("\n").replace(/^\s*\n/, "").trimEnd();
+    if (current.heading !== null || content) {
+      sections.push({ heading: current.heading, content });
+    }
+  };
+
+  for (const line of docstring.split("\n")) {
+    if (/^\s*```/.test(line)) {
+      inCode = !inCode;
+    }
+    const heading = !inCode && line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      flush();
+      current = { heading: heading[1].trim(), lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  flush();
+  return sections;
+}
+
+// First sentence of a docstring's prose, skipping the signature block,
+// headings and code, for summary mode
+export function docSummary(docstring: string | null, maxLength = 160): string | null {
+  if (docstring === null) return null;
+  let inCode = false;
+  const prose: string[] = [];
+  for (const line of docstring.split("\n")) {
+    if (line.trimStart().startsWith("```")) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || /^( {4}|\t)/.test(line) || line.trimStart().startsWith("#")) {
+      if (prose.length > 0) break;
+      continue;
+    }
+    if (line.trim() === "") {
+      if (prose.length > 0) break;
+      continue;
+    }
+    prose.push(line.trim());
+  }
+  const paragraph = prose.join(" ");
+  if (paragraph === "") return null;
+  const sentence = paragraph.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? paragraph;
+  return sentence.length <= maxLength ? sentence : sentence.slice(0, maxLength - 1).trimEnd() + "…";
+}
+
+function summaryLine(name: string, kind: string, summary: string | null | undefined): string {
+  return `${name} (${kind})${summary ? `: ${summary}` : ""}`;
+}
+
+export function formatDoc(result: GetDocResult): string {
+  const omitted = result.omitted ? `\n\n[${result.omitted}]` : "";
+  if (result.summary !== undefined) {
+    const lines = [summaryLine(result.path, result.kind, result.summary ?? "(no docstring)")];
+    if (result.members && result.members.length > 0) {
+      lines.push("", "Members:", ...result.members.map(m => ` - ${summaryLine(m.name, m.kind, m.summary)}`));
+    }
+    return lines.join("\n") + omitted;
+  }
+  if (result.members) {
+    return result.members
+      .map(member => `${RULE}\n${member.docstring}`)
+      .join("\n\n");
+  }
+
+  const parts: string[] = [];
+  if (result.docstring !== null) {
+    parts.push(result.docstring);
+  }
+  if (result.methods && result.docstring === null) {
+    // Concise mode: just the signatures
+    parts.push(result.methods.map(m => `Type signature: ${m.signature}`).join("\n"));
+  } else if (result.methods && result.methods.length > 0) {
+    parts.push(`${RULE}\n\nMethod signatures:\n` + result.methods.map(m => ` - ${m.signature}`).join("\n"));
+  }
+  if (result.fields) {
+    parts.push("Fields:\n" + result.fields.map(f => ` - ${f.name}::${f.type}`).join("\n"));
+  }
+  return parts.join("\n\n");
+}
+
+export function formatPackage(result: ListPackageResult): string {
+  if (result.omitted !== undefined) {
+    return result.symbols.map(s => summaryLine(s.name, s.kind, s.summary) + (s.exported ? "" : " [unexported]"))
+      .join("\n") + `\n\n[${result.omitted}]`;
+  }
+  return result.symbols.map(s => `${s.type} ${s.name}`).join("\n");
+}
+
+export function formatProject(result: ExploreProjectResult): string {
+  const title = result.name ? `${result.name}${result.version ? ` v${result.version}` : ""}` : result.path;
+  const lines = [`Project: ${title}`];
+  if (result.julia.compat || result.julia.manifest_julia_version) {
+    lines.push(`Julia: compat ${result.julia.compat ?? "(none)"}, manifest resolved with ` +
+      `${result.julia.manifest_julia_version ?? "unknown"}`);
+  }
+  if (result.manifest_file === null) {
+    lines.push("No Manifest.toml: the project has not been instantiated");
+  }
+
+  const describeSource = (source: ExploreProjectResult["packages"][number]["source"]) =>
+    source?.path ? ` [dev: ${source.path}]` : source?.url ? ` [${source.url}${source.rev ? `#${source.rev}` : ""}]` : "";
+  for (const kind of ["direct", "weak", "extra"] as const) {
+    const deps = result.dependencies.filter(dep => dep.kind === kind);
+    if (deps.length === 0) continue;
+    lines.push("", { direct: "Dependencies:", weak: "Weak dependencies:", extra: "Extras:" }[kind]);
+    for (const dep of deps) {
+      const compat = dep.compat ? `, compat ${dep.compat}${dep.compat_satisfied === false ? " (VIOLATED)" : ""}` : "";
+      lines.push(` - ${dep.name} ${dep.version ? `v${dep.version}` : "(not in manifest)"}${compat}` +
+        describeSource(dep.source));
+    }
+  }
+  if (result.extensions.length > 0) {
+    lines.push("", "Extensions:", ...result.extensions.map(ext => ` - ${ext.name} (${ext.triggers.join(", ")})`));
+  }
+  if (result.targets.length > 0) {
+    lines.push("", "Targets:", ...result.targets.map(target => ` - ${target.name}: ${target.dependencies.join(", ")}`));
+  }
+  if (result.compat_violations.length > 0) {
+    lines.push("", "Compat violations:",
+      ...result.compat_violations.map(v => ` - ${v.name} v${v.version} vs compat ${v.compat}: ${v.reason}`));
+  }
+
+  if (result.why) {
+    lines.push("", result.why.paths.length === 0 ?
+      `${result.why.package} is not a dependency of this project` :
+      `Why ${result.why.package}:`);
+    lines.push(...result.why.paths.map(path => ` - ${path.join(" → ")}`));
+  } else if (result.packages.length > 0) {
+    // Dependency tree, printing each package's subtree only once
+    const byName = new Map(result.packages.map(pkg => [pkg.name, pkg]));
+    const shown = new Set<string>();
+    const tree = (name: string, indent: string) => {
+      const pkg = byName.get(name);
+      const repeated = shown.has(name) && (pkg?.dependencies.length ?? 0) > 0;
+      lines.push(`${indent}${name}${pkg?.version ? ` v${pkg.version}` : ""}${repeated ? " (*)" : ""}`);
+      if (!pkg || shown.has(name)) return;
+      shown.add(name);
+      for (const dep of pkg.dependencies) tree(dep, indent + "  ");
+    };
+    lines.push("", `Dependency tree (${result.packages.length} packages in manifest, (*) = shown above):`);
+    for (const dep of result.dependencies.filter(dep => dep.kind === "direct")) tree(dep.name, " ");
+  }
+  return lines.join("\n");
+}
+
+export function formatSource(result: GetSourceResult): string {
+  if (result.methods.length === 0) {
+    return `No methods found for ${result.path}`;
+  }
+  const blocks = result.methods.map((method, i) => {
+    const lines = [`Method ${i + 1}:`, `Type signature: ${method.signature}`, RULE];
+    if (method.file !== null) {
+      lines.push(`Source location: ${method.file}:${method.line}`, RULE);
+    }
+    if (method.context) {
+      method.context.lines.forEach((text, offset) => {
+        const lineNumber = method.context!.start_line + offset;
+        // Highlight the first line of the definition and mark the rest of it
+        const inDefinition = method.definition !== null &&
+          lineNumber >= method.definition.start_line && lineNumber <= method.definition.end_line;
+        const marker = lineNumber === method.line ? "➜" : inDefinition ? "│" : " ";
+        lines.push(`${marker} ${lineNumber}: ${text}`);
+      });
+    } else if (method.error) {
+      lines.push(method.error);
+    }
+    return lines.join("\n");
+  });
+  const shown = result.methods.length < result.total_methods ?
+    `Showing ${result.methods.length} of ${result.total_methods} methods` :
+    `Found ${result.total_methods} method(s)`;
+  return `${shown}:\n\n${blocks.join("\n\n")}`;
+}
+
+export function formatSearch(result: SearchDocsResult): string {
+  if (result.results.length === 0) {
+    return `No docstrings match "${result.query}"`;
+  }
+  const lines = [`${result.total_matches} docstring(s) match "${result.query}":`, ""];
+  for (const hit of result.results) {
+    lines.push(`${hit.path} (${hit.kind}, score ${hit.score})`, `    ${hit.snippet}`);
+  }
+  return lines.join("\n");
+}
+
+export function formatCacheStats(result: CacheStatsResult): string {
+  const megabytes = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  const lines = [
+    `Cache directory: ${result.directory}`,
+    `Entries: ${result.entries} / ${result.max_entries}`,
+    `Size: ${megabytes(result.bytes)} / ${megabytes(result.max_bytes)}`,
+    `Hits: ${result.hits}, misses: ${result.misses}`,
+  ];
+  if (result.environments.length > 0) {
+    lines.push("", "Environments:");
+    for (const env of result.environments) {
+      const current = env.key === result.current_environment ? " (active)" : "";
+      lines.push(` - ${env.project ?? "default environment"}, Julia ${env.julia_version}${current}: ` +
+        `${env.entries} entries, ${megabytes(env.bytes)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export function formatTypeInfo(result: TypeInfoResult): string {
+  const flags = (["abstract", "concrete", "mutable", "bits", "primitive", "parametric"] as const)
+    .filter(flag => result[flag]);
+  const lines = [
+    `${result.name} (${result.kind} in ${result.module})`,
+    `Properties: ${flags.length > 0 ? flags.join(", ") : "none"}`,
+  ];
+  if (result.parameters.length > 0) {
+    lines.push("Parameters: " + result.parameters.map(p => {
+      const lower = p.lower === "Union{}" ? "" : `${p.lower} <: `;
+      const upper = p.upper === "Any" ? "" : ` <: ${p.upper}`;
+      return `${lower}${p.name}${upper}`;
+    }).join(", "));
+  }
+  if (result.supertypes.length > 0) {
+    lines.push(`Supertypes: ${[result.name, ...result.supertypes].join(" <: ")}`);
+  }
+  if (result.union_members.length > 0) {
+    lines.push(`Union of: ${result.union_members.join(", ")}`);
+  }
+  if (result.fields.length > 0) {
+    lines.push("", "Fields:", ...result.fields.map(f => ` - ${f.constant ? "const " : ""}${f.name}::${f.type}`));
+  }
+  if (result.subtypes.length > 0) {
+    lines.push("", `Subtypes${result.subtypes_truncated ? " (truncated)" : ""}:`);
+    for (const sub of result.subtypes) {
+      const more = sub.has_subtypes && !result.subtypes.some(other => other.parent === sub.name) ? " …" : "";
+      lines.push(`${"  ".repeat(sub.depth)}${sub.name}${sub.abstract ? " (abstract)" : ""} [${sub.module}]${more}`);
+    }
+  } else if (result.abstract) {
+    lines.push("", "No subtypes in the loaded packages");
+  }
+  if (result.constructors.length > 0) {
+    const count = result.constructors.length < result.total_constructors ?
+      `${result.constructors.length} of ${result.total_constructors}` :
+      `${result.total_constructors}`;
+    lines.push("", `Constructors (${count}):`);
+    for (const method of result.constructors) {
+      lines.push(` - ${method.signature}${method.file !== null ? ` at ${method.file}:${method.line}` : ""}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export function formatMethodsWith(result: MethodsWithResult): string {
+  const scope = result.include_supertypes ? " or its supertypes" : "";
+  const functions = result.modules.reduce((sum, mod) => sum + mod.functions.length, 0);
+  if (result.total_methods === 0) {
+    return `No methods take ${result.type}${scope}`;
+  }
+  const lines = [
+    `${result.total_methods} method(s) of ${functions} function(s) take ${result.type}${scope}` +
+      (result.truncated ? " (truncated)" : ""),
+  ];
+  for (const mod of result.modules) {
+    lines.push("", `${mod.module}:`);
+    for (const fn of mod.functions) {
+      lines.push(`  ${fn.name}`, ...fn.methods.map(m => `    ${m.signature}${m.file !== null ? ` at ${m.file}:${m.line}` : ""}`));
+    }
+  }
+  if (result.ambiguities.length > 0) {
+    lines.push("", "Ambiguities:");
+    for (const a of result.ambiguities) {
+      lines.push(` - ${a.function}: ${a.method.signature} vs ${a.other.signature}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+export function formatInspectCode(result: InspectCodeResult): string {
+  const lines = [
+    `${result.signature} dispatches to ${result.method.signature}` +
+      (result.method.file !== null ? ` at ${result.method.file}:${result.method.line}` : ""),
+    `Inferred return type: ${result.return_type}`,
+  ];
+  if (result.warnings.length === 0) {
+    lines.push("No type instabilities found");
+  } else {
+    lines.push("", "Type instabilities:");
+    for (const w of result.warnings) {
+      const statement = w.statement ? ` = ${w.statement}` : "";
+      const subject = w.kind === "return" ? "return value" : `${w.kind} ${w.name}`;
+      lines.push(` - [${w.severity}] ${subject}::${w.type}${statement}`);
+    }
+  }
+  for (const view of result.views) {
+    const truncated = view.truncated ? ` (first ${view.text.length} of ${view.total_chars} characters)` : "";
+    lines.push("", RULE, `${view.view}${truncated}:`, view.text);
+  }
+  return lines.join("\n");
+}
+
+export function formatSnippet(result: RunSnippetResult): string {
+  const seconds = (result.duration_ms / 1000).toFixed(1);
+  const lines = [{
+    ok: `Finished in ${seconds}s`,
+    error: `Threw an exception after ${seconds}s`,
+    timeout: `Killed after the ${seconds}s timeout`,
+    memory_limit: `Killed after ${seconds}s for exceeding the memory limit`,
+    output_limit: `Killed after ${seconds}s for exceeding the output limit`,
+    crashed: `Julia exited with code ${result.exit_code} after ${seconds}s`,
+  }[result.status]];
+  const stream = (name: string, text: string, truncated: boolean) => {
+    if (text) lines.push("", `${name}${truncated ? " (truncated)" : ""}:`, text.trimEnd());
+  };
+  stream("stdout", result.stdout, result.stdout_truncated);
+  stream("stderr", result.stderr, result.stderr_truncated);
+  if (result.value !== null) {
+    lines.push("", `Value (${result.value_type}):`, result.value);
+  }
+  if (result.exception !== null) {
+    lines.push("", `Exception: ${result.exception}`);
+    if (result.backtrace) lines.push("Stacktrace:", result.backtrace);
+  }
+  return lines.join("\n");
+}
+
+export function formatDoctests(result: CheckDoctestsResult): string {
+  if (result.total_blocks === 0) {
+    return `No doctests found in the docstrings of ${result.path}`;
+  }
+  const lines = [`${result.passed} of ${result.blocks.length} doctest block(s) passed for ${result.path}` +
+    (result.skipped_blocks > 0 ? ` (${result.skipped_blocks} more not run)` : "")];
+  for (const block of result.blocks) {
+    const label = `${block.binding}${block.name ? ` [${block.name}]` : ""}${block.source === "example" ? " (example)" : ""}`;
+    if (block.status === "passed") {
+      lines.push(`✓ ${label}`);
+      continue;
+    }
+    lines.push("", `✗ ${label}: ${block.status}`);
+    if (block.message) lines.push(block.message);
+    if (block.diff) lines.push(block.diff);
+  }
+  return lines.join("\n");
+}
+
+export function formatManualToc(result: ListManualResult): string {
+  const source = result.toc_source === "make.jl" ? "docs/make.jl" : "the files in docs/src";
+  const lines = [`Manual of ${result.package} (${result.docs_dir}), ordered by ${source}:`];
+  for (const entry of result.toc) {
+    lines.push(`${"  ".repeat(entry.depth)}- ${entry.title}${entry.page !== null ? ` (${entry.page})` : ""}`);
+  }
+  if (result.unlisted.length > 0) {
+    lines.push("", `Not in the table of contents: ${result.unlisted.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+export function formatManualPage(result: GetManualPageResult): string {
+  const lines = [`${result.package} manual: ${result.page}`, RULE, result.content.trim()];
+  const unresolved = result.refs.filter(ref => ref.kind === "unresolved");
+  const missing = result.docs.filter(doc => !doc.found);
+  if (unresolved.length > 0 || missing.length > 0) {
+    lines.push(RULE);
+    if (missing.length > 0) lines.push(`Docstrings not found: ${missing.map(doc => doc.entry).join(", ")}`);
+    if (unresolved.length > 0) lines.push(`Unresolved references: ${unresolved.map(ref => ref.target).join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+export function formatEnvironments(result: ListEnvironmentsResult): string {
+  if (result.environments.length === 0) {
+    return "No Julia environments found";
+  }
+  return result.environments.map(env => {
+    const details = [env.source, env.has_manifest ? "manifest" : "no manifest"];
+    if (env.active) details.push("active");
+    return `${env.name ? `${env.name}: ` : ""}${env.path} (${details.join(", ")})`;
+  }).join("\n");
+}
+
+export function formatJuliaVersions(result: ListJuliaVersionsResult): string {
+  if (result.installations.length === 0) {
+    return "No Julia installations found";
+  }
+  return result.installations.map(julia => {
+    const details: string[] = [julia.source];
+    if (julia.channels.length > 0) details.push(`channels: ${julia.channels.join(", ")}`);
+    if (julia.default) details.push("default");
+    return `Julia ${julia.version}: ${julia.executable} (${details.join("; ")})`;
+  }).join("\n");
+}
+
+export function formatCompareDocs(result: CompareDocsResult): string {
+  const label = (side: CompareDocsResult["from"]) =>
+    side.julia_version === side.version ? side.version : `${side.version} (${side.julia_version})`;
+  const from = label(result.from);
+  const to = label(result.to);
+  const lines = [`${result.path}: Julia ${from} -> ${to}`];
+  for (const side of [result.from, result.to]) {
+    if (!side.defined) lines.push(`Not defined in Julia ${label(side)}`);
+  }
+  if (result.docstring) {
+    lines.push(RULE);
+    lines.push(result.docstring.identical ?
+      "Docstring: identical" :
+      `Docstring diff (- ${from}, + ${to}):\n${result.docstring.diff}`);
+  }
+  if (result.methods) {
+    const { removed, added, unchanged } = result.methods;
+    lines.push(RULE);
+    lines.push(`Methods: ${unchanged} unchanged, ${removed.length} removed, ${added.length} added`);
+    if (removed.length > 0) lines.push(`Only in ${from}:\n${removed.map(sig => `  - ${sig}`).join("\n")}`);
+    if (added.length > 0) lines.push(`Only in ${to}:\n${added.map(sig => `  + ${sig}`).join("\n")}`);
+  }
+  return lines.join("\n");
+}
+
+// Entries grouped by file, with the modules each file's entries are in
+export function formatOutline(result: OutlineResult): string {
+  const lines = [`${result.package ?? result.project}: ${result.files.length} files, ${result.entries.length} entries`];
+  const byFile = new Map<string, OutlineResult["entries"]>();
+  for (const entry of result.entries) {
+    byFile.set(entry.file, [...(byFile.get(entry.file) ?? []), entry]);
+  }
+  for (const [file, entries] of byFile) {
+    const modules = [...new Set(entries.map(entry => entry.module).filter(mod => mod !== null))];
+    lines.push("", modules.length > 0 ? `${file} (in ${modules.join(", ")})` : file);
+    for (const entry of entries) {
+      const name = entry.kind === "include" ? `"${entry.name}"` : entry.signature ?? entry.name;
+      lines.push(`  ${entry.line}: ${entry.kind} ${name}`);
+    }
+  }
+  if (result.parse_errors.length > 0) {
+    lines.push("", "Parse errors:",
+      ...result.parse_errors.map(error => `  ${error.file}${error.line === null ? "" : `:${error.line}`}: ${error.message}`));
+  }
+  return lines.join("\n");
+}
+
+export function formatReferences(result: FindReferencesResult): string {
+  const searched = result.sources.map(source => source.package ?? source.root).join(", ");
+  const lines = [`${result.total} references to ${result.name} in ${searched}` +
+    (result.total > result.references.length ? ` (showing ${result.references.length})` : "")];
+  for (const ref of result.references) {
+    const where = ref.package && result.sources.length > 1 ? `${ref.package}: ${ref.file}` : ref.file;
+    lines.push(`${where}:${ref.line} [${ref.kind}] ${ref.code}`);
+  }
+  if (result.parse_errors.length > 0) {
+    lines.push("Parse errors:",
+      ...result.parse_errors.map(error => `  ${error.file}${error.line === null ? "" : `:${error.line}`}: ${error.message}`));
+  }
+  return lines.join("\n");
+}
+
+// Markdown report with the flagged names first, or the result as JSON
+export function formatApiReport(result: ApiReportResult): string {
+  if (result.format === "json") {
+    const { format, ...report } = result;
+    return JSON.stringify(report, null, 2);
+  }
+  const { summary } = result;
+  const lines = [`# API report: ${result.module}`, ""];
+  lines.push(summary.coverage === null ?
+    "No exported or public names." :
+    `${summary.documented} of ${summary.public} exported and public names documented ` +
+      `(${Math.round(summary.coverage * 100)}%).`);
+  lines.push("", `- Undocumented: ${summary.flagged.undocumented}`,
+    `- Docstrings mentioning no argument: ${summary.flagged.arguments_not_mentioned}`,
+    `- Documented but unexported: ${summary.flagged.documented_unexported}`);
+
+  const flagged = result.symbols.filter(symbol => symbol.flags.length > 0);
+  if (flagged.length > 0) {
+    lines.push("", "## Issues", "");
+    for (const symbol of flagged) {
+      const issues = symbol.flags.map(flag => ({
+        undocumented: "no docstring",
+        arguments_not_mentioned: `docstring of ${symbol.unmentioned.map(sig => `\`${sig}\``).join(", ")} mentions no argument`,
+        documented_unexported: "documented but not exported or public",
+      })[flag]);
+      lines.push(`- \`${symbol.name}\` (${symbol.kind}): ${issues.join("; ")}`);
+    }
+  }
+
+  const api = result.symbols.filter(symbol => symbol.public);
+  if (api.length > 0) {
+    lines.push("", "## API", "", "| Name | Kind | Exported | Docstrings | Flags |", "| --- | --- | --- | --- | --- |");
+    for (const symbol of api) {
+      lines.push(`| \`${symbol.name}\` | ${symbol.kind} | ${symbol.exported ? "yes" : "public"} | ` +
+        `${symbol.docstrings} | ${symbol.flags.join(", ")} |`);
+    }
+  }
+  return lines.join("\n");
+}
+
+// Markdown views used for juliadoc:// resources
+
+export function formatDocMarkdown(result: GetDocResult): string {
+  return `# ${result.path}\n\n*${result.kind} in \`${result.module}\`*\n\n${formatDoc(result)}`;
+}
+
+export function formatSourceMarkdown(result: GetSourceResult): string {
+  const parts = [`# Source of ${result.path}`];
+  if (result.methods.length === 0) {
+    parts.push(`No methods found for \`${result.path}\``);
+  }
+  result.methods.forEach((method, i) => {
+    parts.push(`## Method ${i + 1}: \`${method.signature}\``);
+    if (method.file !== null) {
+      parts.push(`\`${method.file}:${method.line}\``);
+    }
+    if (method.context) {
+      parts.push("```julia\n" + method.context.lines.join("\n") + "\n```");
+    } else if (method.error) {
+      parts.push(method.error);
+    }
+  });
+  return parts.join("\n\n");
+}
+
+export function formatPackageMarkdown(doc: GetDocResult, listing: ListPackageResult): string {
+  const parts = [`# ${listing.module}`, formatDoc(doc), "## Exported names"];
+  const exported = listing.symbols.filter(symbol => symbol.exported);
+  parts.push(exported.length === 0 ?
+    "*None*" :
+    exported.map(symbol => `- \`${symbol.name}\` (${symbol.kind})`).join("\n"));
+  return parts.join("\n\n");
+}
@@ -0,0 +1,227 @@
+import { spawn } from "child_process";
+import { closeSync, existsSync, mkdtempSync, openSync, readFileSync, readSync, rmSync, statSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { JULIA_PRELUDE } from "./prelude.js";
+import { JuliaCancelledError } from "./worker.js";
+import { RunSnippetResult } from "./results.js";
+import { log } from "./logger.js";
+
+// Julia program evaluating one snippet in Main. Output goes to files in the
+// working directory, so the server can read what was printed even when the
+// process is killed; the value or exception is written to result.json.
+const SNIPPET_SCRIPT = JULIA_PRELUDE + `
+let dir = pwd(), args = JuliaDocMCP.parse_json(read(stdin, String))
+  result = Dict{String,Any}("value" => nothing, "value_type" => nothing, "exception" => nothing, "backtrace" => nothing)
+  out = open(joinpath(dir, "stdout.txt"), "w")
+  err = open(joinpath(dir, "stderr.txt"), "w")
+  try
+    value = redirect_stdout(out) do
+      redirect_stderr(err) do
+        Base.include_string(Main, args["code"], "snippet")
+      end
+    end
+    result["value"] = first(repr("text/plain", value; context = :limit => true), args["max_value_chars"])
+    result["value_type"] = string(typeof(value))
+  catch e
+    frames = stacktrace(catch_backtrace())
+    # Drop the frames of this script below the snippet's own
+    last_frame = findlast(frame -> string(frame.file) == "snippet", frames)
+    last_frame === nothing || (frames = frames[1:last_frame])
+    result["exception"] = sprint(showerror, e isa LoadError ? e.error : e)
+    result["backtrace"] = join(["[$i] $frame" for (i, frame) in enumerate(frames)], "\\n")
+  finally
+    close(out)
+    close(err)
+  end
+  open(io -> JuliaDocMCP.write_json(io, result), joinpath(dir, "result.json"), "w")
+end
+`;
+
+export interface SnippetLimits {
+  timeoutSeconds: number;
+  memoryMB: number;
+  maxOutputBytes: number;
+}
+
+// First `maxBytes` of a file, and whether there was more
+function readCapped(file: string, maxBytes: number): { text: string; truncated: boolean } {
+  if (!existsSync(file)) return { text: "", truncated: false };
+  const fd = openSync(file, "r");
+  try {
+    const buffer = Buffer.alloc(maxBytes + 1);
+    const read = readSync(fd, buffer, 0, maxBytes + 1, 0);
+    return { text: buffer.subarray(0, Math.min(read, maxBytes)).toString(), truncated: read > maxBytes };
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Size of a file in bytes, 0 while it does not exist
+function fileBytes(file: string): number {
+  try {
+    return statSync(file).size;
+  } catch {
+    return 0;
+  }
+}
+
+// Locale variables, passed on so Julia prints text as it would in a terminal
+const LOCALE = /^(LANG|LANGUAGE|LC_[A-Z]+)$/;
+
+// Environment of a sandboxed process: what Julia needs to find itself, its
+// packages and the locale, but none of the server's other variables, which
+// may hold tokens and keys. Temporary files go to the working directory, so
+// they are deleted with it.
+function sandboxEnv(projectPath: string | null, dir: string): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { JULIA_PROJECT: projectPath || "", TMPDIR: dir };
+  for (const [name, value] of Object.entries(process.env)) {
+    if (["PATH", "HOME", "JULIA_DEPOT_PATH"].includes(name) || LOCALE.test(name)) env[name] = value;
+  }
+  return env;
+}
+
+// Resident memory of a process in MB, where /proc is available
+function residentMB(pid: number): number | null {
+  try {
+    const match = readFileSync(`/proc/${pid}/status`, "utf8").match(/^VmRSS:\s+(\d+) kB/m);
+    return match ? Number(match[1]) / 1024 : null;
+  } catch {
+    return null;
+  }
+}
+
+// How a sandboxed process ended
+export interface SandboxExit {
+  // Its working directory, still holding the files it wrote
+  dir: string;
+  exitCode: number | null;
+  killedFor: "timeout" | "memory_limit" | "output_limit" | null;
+  // Anything Julia itself printed (e.g. startup errors) outside the files the
+  // program redirects its output to
+  processOutput: string;
+  durationMs: number;
+}
+
+// Run a Julia program in its own process with a temporary working directory
+// that is deleted afterwards, passing `input` as JSON on stdin. The process is
+// killed when it exceeds the wall-clock timeout, when one of `outputFiles`
+// grows past the output limit, or (on Linux) when it exceeds the memory
+// limit; elsewhere the memory limit is only passed to Julia as a heap size
+// hint. `collect` reads the result from the working directory before it is
+// deleted. Aborting `signal` kills the process too and rejects with
+// JuliaCancelledError.
+export function runSandboxed<T>(
+  juliaPath: string,
+  projectPath: string | null,
+  script: string,
+  input: unknown,
+  outputFiles: string[],
+  limits: SnippetLimits,
+  signal: AbortSignal | undefined,
+  collect: (exit: SandboxExit) => T
+): Promise<T> {
+  const dir = mkdtempSync(join(tmpdir(), "juliadoc-snippet-"));
+  const flags = ["--startup-file=no", "--history-file=no", `--heap-size-hint=${limits.memoryMB}M`];
+  if (projectPath) {
+    flags.push(`--project=${projectPath}`);
+  }
+  const started = Date.now();
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(juliaPath, [...flags, "-e", script], {
+      cwd: dir,
+      stdio: ["pipe", "pipe", "pipe"],
+      env: sandboxEnv(projectPath, dir),
+    });
+    let killedFor: SandboxExit["killedFor"] = null;
+    const kill = (reason: NonNullable<SandboxExit["killedFor"]>) => {
+      killedFor = reason;
+      child.kill("SIGKILL");
+    };
+    const timer = setTimeout(() => kill("timeout"), limits.timeoutSeconds * 1000);
+    const monitor = setInterval(() => {
+      const rss = child.pid === undefined ? null : residentMB(child.pid);
+      if (rss !== null && rss > limits.memoryMB) kill("memory_limit");
+      // Output is only read back after the run, so it could fill the disk first
+      const output = outputFiles.map(file => fileBytes(join(dir, file)));
+      if (output.some(bytes => bytes > limits.maxOutputBytes)) kill("output_limit");
+    }, 250);
+    let cancelled = false;
+    const cancel = () => {
+      cancelled = true;
+      child.kill("SIGKILL");
+    };
+    signal?.addEventListener("abort", cancel, { once: true });
+
+    let processOutput = "";
+    const output = (chunk: Buffer) => {
+      if (processOutput.length < limits.maxOutputBytes) processOutput += chunk.toString();
+    };
+    child.stdout.on("data", output);
+    child.stderr.on("data", output);
+
+    const finish = (exitCode: number | null) => {
+      clearTimeout(timer);
+      clearInterval(monitor);
+      signal?.removeEventListener("abort", cancel);
+      if (cancelled) {
+        rmSync(dir, { recursive: true, force: true });
+        reject(new JuliaCancelledError());
+        return;
+      }
+      try {
+        resolve(collect({ dir, exitCode, killedFor, processOutput, durationMs: Date.now() - started }));
+      } catch (error) {
+        reject(error);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    };
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      clearInterval(monitor);
+      signal?.removeEventListener("abort", cancel);
+      rmSync(dir, { recursive: true, force: true });
+      reject(error);
+    });
+    child.on("close", finish);
+    // Julia exiting before it read its input (EPIPE); "close" reports the failure
+    child.stdin.on("error", (error) => log.debug(`Could not send input to Julia: ${error.message}`));
+    child.stdin.end(JSON.stringify(input));
+  });
+}
+
+// Run a snippet in a sandboxed process (see runSandboxed). Its stdout and
+// stderr are held to the output limit.
+export function runSnippet(
+  juliaPath: string,
+  projectPath: string | null,
+  code: string,
+  limits: SnippetLimits,
+  signal?: AbortSignal
+): Promise<RunSnippetResult> {
+  const input = { code, max_value_chars: limits.maxOutputBytes };
+  return runSandboxed(juliaPath, projectPath, SNIPPET_SCRIPT, input, ["stdout.txt", "stderr.txt"], limits, signal, exit => {
+    const stdout = readCapped(join(exit.dir, "stdout.txt"), limits.maxOutputBytes);
+    const stderr = readCapped(join(exit.dir, "stderr.txt"), limits.maxOutputBytes);
+    const resultFile = join(exit.dir, "result.json");
+    const outcome = existsSync(resultFile) ?
+      JSON.parse(readFileSync(resultFile, "utf8")) as Pick<RunSnippetResult, "value" | "value_type" | "exception" | "backtrace"> :
+      null;
+    const status = exit.killedFor ?? (outcome === null ? "crashed" : outcome.exception !== null ? "error" : "ok");
+    return {
+      status,
+      stdout: stdout.text,
+      stderr: stderr.text + (status === "crashed" ? exit.processOutput : ""),
+      stdout_truncated: stdout.truncated,
+      stderr_truncated: stderr.truncated,
+      value: outcome?.value ?? null,
+      value_type: outcome?.value_type ?? null,
+      exception: outcome?.exception ?? null,
+      backtrace: outcome?.backtrace ?? null,
+      exit_code: exit.exitCode,
+      duration_ms: exit.durationMs,
+    };
+  });
+}
@@ -0,0 +1,60 @@
+import { z } from "zod";
+
+// A Julia identifier: a letter or underscore followed by letters, digits,
+// underscores, `!` or primes (e.g. `sort!`, `x′`)
+const IDENTIFIER = String.raw`[\p{L}_][\p{L}\p{N}_!′]*`;
+
+// An operator such as `+`, `==` or `∘`
+const OPERATOR = String.raw`[-+*/\\^%&|<>=!~÷×∘⊻⊼⊽≤≥≠≡≢≈≉∈∉∋∌⊆⊇⊊⊋⊂⊃∩∪⋅⊗⊕⊖⊙√∛∜→←↔⇒⟹]+`;
+
+// Dotted identifiers, optionally ending in a macro (`Base.@time`) or a quoted
+// operator (`Base.:+`, `Base.:(==)`); or a macro or operator on its own
+export const JULIA_PATH_PATTERN = `${IDENTIFIER}(\\.${IDENTIFIER})*(\\.(@${IDENTIFIER}|:${OPERATOR}|:\\(${OPERATOR}\\)))?` +
+  `|@${IDENTIFIER}|${OPERATOR}`;
+
+const JULIA_PATH = new RegExp(`^(${JULIA_PATH_PATTERN})$`, "u");
+
+// Dotted path to a Julia object such as `Base.sort`, `LinearAlgebra.cholesky`,
+// `Base.@time` or `Base.:+`. Julia re-checks the path with Meta.parse before
+// resolving it.
+export const juliaPathSchema = z.string()
+  .max(256)
+  .regex(JULIA_PATH, "Must be a dotted path of Julia names, e.g. 'Base.sort', 'Base.@time' or 'Base.:+'");
+
+// A name to find references to: a function, type or macro, optionally
+// qualified, e.g. `show`, `Base.show` or `Base.@time`
+export const referenceNameSchema = z.string()
+  .max(256)
+  .regex(new RegExp(`^(${IDENTIFIER}\\.)*@?${IDENTIFIER}$`, "u"),
+    "Must be a Julia name, optionally qualified, e.g. 'show', 'Base.show' or 'Base.@time'");
+
+// Filesystem path to a project directory, its Project.toml, or a file inside it
+export const projectDirSchema = z.string()
+  .min(1)
+  .max(4096)
+  .refine(path => !path.includes("\0"), "Path must not contain NUL characters");
+
+// Call signature with argument types, e.g. `sort!(::Vector{Int})`. Julia parses
+// it and resolves the type names itself; nothing in it is evaluated.
+export const signatureSchema = z.string()
+  .min(1)
+  .max(512)
+  .refine(sig => !sig.includes("\0"), "Signature must not contain NUL characters");
+
+// The optional `project` argument accepted by every tool that runs Julia
+export const projectSchema = projectDirSchema
+  .describe("Julia environment to use: a project directory, its Project.toml, any file inside the project, " +
+    "or a shared environment such as '@v1.10'. Defaults to JULIA_PROJECT")
+  .optional();
+
+// A juliaup channel or installed Julia version, e.g. `lts` or `1.10`
+export const juliaVersionNameSchema = z.string()
+  .min(1)
+  .max(64)
+  .regex(/^[\w.+-]+$/, "Must be a juliaup channel or a version such as '1.10'");
+
+// The optional `julia_version` argument of every tool that runs Julia
+export const juliaVersionSchema = juliaVersionNameSchema
+  .describe("Julia to run with: a juliaup channel ('lts', 'release', 'nightly', '1.11') or an installed version " +
+    "('1.10', '1.10.4'). See list-julia-versions. Defaults to the server's Julia")
+  .optional();
@@ -0,0 +1,216 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { SymbolKind } from "./results.js";
+import { log } from "./logger.js";
+
+// A single docstring collected from a loaded module
+export interface DocEntry {
+  package: string;
+  module: string;
+  name: string;
+  kind: SymbolKind;
+  docstring: string;
+}
+
+export interface SearchHit {
+  entry: DocEntry;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchOptions {
+  packages?: string[];
+  limit: number;
+}
+
+// Loads Base, Core, every stdlib and every direct dependency of the active
+// project that the package policy allows, then collects the docstrings of all
+// their (sub)modules. Packages that fail to load are reported in `skipped`
+// instead of failing the build.
+export const BUILD_INDEX_CODE = `
+  roots = Module[Core, Base]
+  skipped = String[]
+  stdlibs = filter(readdir(Sys.STDLIB)) do n
+    JuliaDocMCP.package_allowed(n) && isfile(joinpath(Sys.STDLIB, n, "src", n * ".jl"))
+  end
+  for name in unique(vcat(stdlibs, JuliaDocMCP.project_dependencies()))
+    try
+      pkg = Base.identify_package(name)
+      pkg === nothing ? push!(skipped, name) : push!(roots, Base.require(pkg))
+    catch
+      push!(skipped, name)
+    end
+  end
+
+  function collect_modules!(seen, mod)
+    mod in seen && return
+    push!(seen, mod)
+    for n in names(mod, all=true)
+      (isdefined(mod, n) && !Base.isdeprecated(mod, n)) || continue
+      sub = getfield(mod, n)
+      sub isa Module && sub !== mod && parentmodule(sub) === mod && collect_modules!(seen, sub)
+    end
+  end
+  modules = Set{Module}()
+  foreach(mod -> collect_modules!(modules, mod), roots)
+
+  docstring_text(d) = isempty(d.text) ? string(Base.Docs.parsedoc(d)) : join(map(string, d.text))
+
+  entries = []
+  for mod in modules, (binding, multidoc) in Base.Docs.meta(mod)
+    binding isa Base.Docs.Binding || continue
+    owner, name = binding.mod, binding.var
+    obj = isdefined(owner, name) && !Base.isdeprecated(owner, name) ? getfield(owner, name) : nothing
+    text = join([docstring_text(d) for d in values(multidoc.docs)], "\\n\\n")
+    push!(entries, Dict{String,Any}(
+      "package" => string(nameof(Base.moduleroot(owner))),
+      "module" => string(owner),
+      "name" => string(name),
+      "kind" => obj === nothing ? "constant" : JuliaDocMCP.symbol_kind(obj, name),
+      "docstring" => first(text, 8000),
+    ))
+  end
+  JuliaDocMCP.emit((entries = entries, skipped = skipped))
+`;
+
+const K1 = 1.2;
+const B = 0.75;
+const NAME_WEIGHT = 3;
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1);
+}
+
+// BM25 ranking over docstrings, with names weighted above body text and
+// prefix matches ("chol" finds "cholesky") counted at half weight
+export class SearchIndex {
+  private termFrequencies: Map<string, number>[] = [];
+  private lengths: number[] = [];
+  private documentFrequency = new Map<string, number>();
+  private averageLength = 0;
+
+  constructor(readonly entries: DocEntry[], readonly builtAt: string, readonly skipped: string[] = []) {
+    for (const entry of this.entries) {
+      const nameTokens = tokenize(entry.name);
+      const tokens = [
+        ...Array(NAME_WEIGHT).fill(nameTokens).flat(),
+        ...tokenize(entry.module),
+        ...tokenize(entry.docstring),
+      ];
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) {
+        frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      }
+      for (const token of frequencies.keys()) {
+        this.documentFrequency.set(token, (this.documentFrequency.get(token) ?? 0) + 1);
+      }
+      this.termFrequencies.push(frequencies);
+      this.lengths.push(tokens.length);
+    }
+    const total = this.lengths.reduce((sum, length) => sum + length, 0);
+    this.averageLength = this.entries.length ? total / this.entries.length : 0;
+  }
+
+  // Index terms matching a query term, with the weight each match counts for
+  private expand(term: string): Map<string, number> {
+    const matches = new Map<string, number>();
+    if (this.documentFrequency.has(term)) {
+      matches.set(term, 1);
+    }
+    if (term.length >= 3) {
+      for (const candidate of this.documentFrequency.keys()) {
+        if (candidate !== term && candidate.startsWith(term)) {
+          matches.set(candidate, 0.5);
+        }
+      }
+    }
+    return matches;
+  }
+
+  search(query: string, options: SearchOptions): { hits: SearchHit[]; total: number } {
+    const terms = [...new Set(tokenize(query))].map(term => this.expand(term));
+    const packages = options.packages?.length ? new Set(options.packages) : null;
+    const count = this.entries.length;
+    const scored: { index: number; score: number }[] = [];
+
+    this.entries.forEach((entry, index) => {
+      if (packages && !packages.has(entry.package)) return;
+      const frequencies = this.termFrequencies[index];
+      const norm = K1 * (1 - B + B * this.lengths[index] / (this.averageLength || 1));
+      let score = 0;
+      for (const matches of terms) {
+        for (const [term, weight] of matches) {
+          const tf = frequencies.get(term);
+          if (!tf) continue;
+          const df = this.documentFrequency.get(term)!;
+          const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+          score += weight * idf * (tf * (K1 + 1)) / (tf + norm);
+        }
+      }
+      if (score > 0) {
+        if (entry.name.toLowerCase() === query.trim().toLowerCase()) {
+          score *= 2;
+        }
+        scored.push({ index, score });
+      }
+    });
+
+    scored.sort((a, b) => b.score - a.score);
+    const hits = scored.slice(0, options.limit).map(({ index, score }) => ({
+      entry: this.entries[index],
+      score: Math.round(score * 1000) / 1000,
+      snippet: snippet(this.entries[index].docstring, query),
+    }));
+    return { hits, total: scored.length };
+  }
+}
+
+// The docstring line mentioning the most query terms, or its first prose line
+function snippet(docstring: string, query: string, maxLength = 240): string {
+  const terms = tokenize(query);
+  const lines = docstring.split("\n").map(line => line.trim()).filter(Boolean);
+  let best = lines.find(line => !line.startsWith("```") && !line.startsWith("#")) ?? "";
+  let bestHits = 0;
+  for (const line of lines) {
+    const lower = line.toLowerCase();
+    const hits = terms.filter(term => lower.includes(term)).length;
+    if (hits > bestHits) {
+      best = line;
+      bestHits = hits;
+    }
+  }
+  return best.length > maxLength ? best.slice(0, maxLength - 1) + "…" : best;
+}
+
+interface IndexFile {
+  builtAt: string;
+  skipped: string[];
+  entries: DocEntry[];
+}
+
+export function loadIndex(file: string): SearchIndex | null {
+  if (!existsSync(file)) return null;
+  try {
+    const data = JSON.parse(readFileSync(file, "utf8")) as IndexFile;
+    return new SearchIndex(data.entries, data.builtAt, data.skipped);
+  } catch (error) {
+    log.warning(`Ignoring unreadable search index ${file}`, error);
+    return null;
+  }
+}
+
+// Write an index to its cache file. Failing to is only logged: the index is
+// still used, and rebuilt when the server restarts.
+export function saveIndex(file: string, index: SearchIndex): void {
+  const data: IndexFile = { builtAt: index.builtAt, skipped: index.skipped, entries: index.entries };
+  try {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(data));
+  } catch (error) {
+    log.warning(`Failed to write search index ${file}`, error);
+  }
+}
@@ -0,0 +1,218 @@
+import { readFileSync } from "fs";
+import { connect, Socket } from "net";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { JULIA_PRELUDE } from "./prelude.js";
+import { depotPaths } from "./environments.js";
+import { log } from "./logger.js";
+import {
+  FrameReader, JuliaArgs, JuliaCancelledError, JuliaEvalError, JuliaOutput, JuliaTimeoutError, RunOptions,
+} from "./worker.js";
+
+// Connection to a Julia session the user started themselves (a REPL running
+// julia/JuliaDocSession.jl), so lookups see live, Revise-tracked code and
+// definitions in Main. The session speaks the worker protocol over a Unix
+// socket or named pipe after a handshake carrying the token from its token
+// file and the JuliaDocMCP prelude. When the session cannot be reached, calls
+// fail with SessionUnavailableError and the server uses its own processes.
+
+// Companion script users include in their session
+export const SESSION_SCRIPT_PATH = fileURLToPath(new URL("../julia/JuliaDocSession.jl", import.meta.url));
+
+// The defaults of JuliaDocSession.start(), which uses the first depot
+export function defaultSessionSocket(): string {
+  return process.platform === "win32" ?
+    "\\\\.\\pipe\\juliadoc-session" :
+    join(depotPaths()[0], "juliadoc", "session.sock");
+}
+
+export function defaultSessionTokenFile(): string {
+  return join(depotPaths()[0], "juliadoc", "session.token");
+}
+
+// Raised when the session is not listening, refuses the token or goes away;
+// callers fall back to subprocesses
+export class SessionUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SessionUnavailableError";
+  }
+}
+
+export interface SessionOptions {
+  socketPath: string;
+  tokenFile: string;
+  timeoutSeconds: number;
+  // Environment variables requests run with, such as the package allow and deny lists
+  env: Record<string, string>;
+}
+
+interface ActiveRequest {
+  id: number;
+  onStderr?: (line: string) => void;
+  resolve: (output: JuliaOutput) => void;
+  reject: (error: Error) => void;
+}
+
+// Time allowed for connecting and loading the prelude in the session
+const CONNECT_TIMEOUT_MS = 10_000;
+
+// After a failed connection, calls skip the session for this long
+const RETRY_INTERVAL_MS = 10_000;
+
+export class JuliaSession {
+  private socket: Socket | null = null;
+  private current: ActiveRequest | null = null;
+  // Requests are sent one at a time; the session runs them one at a time anyway
+  private tail: Promise<unknown> = Promise.resolve();
+  private nextId = 1;
+  private retryAt = 0;
+  private lastFailure = "";
+  // Whether the last connection attempt succeeded, to log only changes
+  private reachable: boolean | null = null;
+
+  constructor(private options: SessionOptions) {}
+
+  get socketPath(): string {
+    return this.options.socketPath;
+  }
+
+  run(code: string, args: JuliaArgs = {}, options: RunOptions = {}): Promise<JuliaOutput> {
+    const result = this.tail.then(() => this.execute(code, JSON.stringify(args), options));
+    this.tail = result.catch(() => {});
+    return result;
+  }
+
+  close(): void {
+    this.disconnect(new SessionUnavailableError("The server is shutting down"));
+  }
+
+  private async execute(code: string, args: string, { timeoutSeconds, signal, onStderr }: RunOptions): Promise<JuliaOutput> {
+    if (signal?.aborted) throw new JuliaCancelledError();
+    const socket = await this.connect();
+    const limit = timeoutSeconds ?? this.options.timeoutSeconds;
+    return new Promise((resolve, reject) => {
+      // The session cannot be interrupted from here: dropping the connection
+      // discards the response, and the session finishes the request on its own
+      const timer = setTimeout(() => {
+        this.disconnect(new JuliaTimeoutError(`Julia session did not answer within ${limit} seconds`));
+      }, limit * 1000);
+      const cancel = () => this.disconnect(new JuliaCancelledError());
+      signal?.addEventListener("abort", cancel, { once: true });
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", cancel);
+      };
+      const request: ActiveRequest = {
+        id: this.nextId++,
+        onStderr,
+        resolve: (output) => {
+          done();
+          resolve(output);
+        },
+        reject: (error) => {
+          done();
+          reject(error);
+        },
+      };
+      this.current = request;
+      socket.write(`${request.id} ${Buffer.byteLength(code)} ${Buffer.byteLength(args)}\n` + code + args);
+    });
+  }
+
+  private async connect(): Promise<Socket> {
+    if (this.socket) return this.socket;
+    if (Date.now() < this.retryAt) {
+      throw new SessionUnavailableError(this.lastFailure);
+    }
+    try {
+      const socket = await this.open();
+      if (this.reachable !== true) log.info(`Attached to the Julia session at ${this.options.socketPath}`);
+      this.reachable = true;
+      return socket;
+    } catch (error) {
+      this.retryAt = Date.now() + RETRY_INTERVAL_MS;
+      this.lastFailure = `Julia session at ${this.options.socketPath} is not reachable: ` +
+        (error instanceof Error ? error.message : String(error));
+      if (this.reachable !== false) log.warning(`${this.lastFailure}; using Julia subprocesses until it is`);
+      this.reachable = false;
+      throw new SessionUnavailableError(this.lastFailure);
+    }
+  }
+
+  // Connect and authenticate; resolves once the session loaded the prelude
+  private open(): Promise<Socket> {
+    let token: string;
+    try {
+      token = readFileSync(this.options.tokenFile, "utf8").trim();
+    } catch {
+      return Promise.reject(new Error(`cannot read the token file ${this.options.tokenFile}; is JuliaDocSession.start() running?`));
+    }
+    const env = JSON.stringify(this.options.env);
+
+    return new Promise((resolve, reject) => {
+      const socket = connect(this.options.socketPath);
+      let pending = true;
+      const fail = (error: Error) => {
+        if (!pending) return;
+        pending = false;
+        clearTimeout(timer);
+        socket.destroy();
+        reject(error);
+      };
+      const timer = setTimeout(() => fail(new Error(`no answer within ${CONNECT_TIMEOUT_MS / 1000} seconds`)), CONNECT_TIMEOUT_MS);
+      const frames = new FrameReader((id, status, stdout, stderr) => {
+        if (!pending) {
+          this.onFrame(id, status, stdout, stderr);
+        } else if (status === "ready") {
+          pending = false;
+          clearTimeout(timer);
+          this.socket = socket;
+          resolve(socket);
+        } else {
+          fail(new Error(stdout.trim() || "the session refused the connection"));
+        }
+      });
+
+      socket.on("connect", () => {
+        socket.write(`juliadoc ${token} ${Buffer.byteLength(JULIA_PRELUDE)} ${Buffer.byteLength(env)}\n` + JULIA_PRELUDE + env);
+      });
+      socket.on("data", (chunk: Buffer) => frames.push(chunk));
+      socket.on("error", (error) => {
+        fail(error);
+        if (this.socket === socket) this.disconnect(new SessionUnavailableError(`Julia session connection failed: ${error.message}`));
+      });
+      socket.on("close", () => {
+        fail(new Error("the session closed the connection"));
+        if (this.socket === socket) this.disconnect(new SessionUnavailableError("The Julia session closed the connection"));
+      });
+    });
+  }
+
+  private onFrame(id: number, status: string, stdout: string, stderr: string): void {
+    const request = this.current;
+    if (!request || request.id !== id) {
+      log.warning(`Julia session sent a response for unknown request ${id}`);
+      return;
+    }
+    if (status === "stderr") {
+      request.onStderr?.(stdout);
+      return;
+    }
+    this.current = null;
+    if (status === "ok") {
+      request.resolve({ stdout, stderr });
+    } else {
+      request.reject(new JuliaEvalError(stdout));
+    }
+  }
+
+  // Drop the connection and fail the request in progress
+  private disconnect(error: Error): void {
+    const request = this.current;
+    this.current = null;
+    this.socket?.destroy();
+    this.socket = null;
+    request?.reject(error);
+  }
+}
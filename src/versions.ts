@@ -0,0 +1,274 @@
+import { execFile } from "child_process";
+import { existsSync, readdirSync, readFileSync, realpathSync } from "fs";
+import { homedir } from "os";
+import { basename, delimiter, join } from "path";
+import { promisify } from "util";
+import { JuliaToolError } from "./errors.js";
+import { log } from "./logger.js";
+
+const execFileAsync = promisify(execFile);
+
+// Installed Julia versions: juliaup channels and versions, tarballs unpacked
+// in the usual places, macOS apps and Windows installs, and every `julia` on
+// PATH. Versions not evident from a juliaup config or a directory name are
+// asked with `julia --version`.
+
+export interface JuliaInstallation {
+  version: string;
+  executable: string;
+  source: "juliaup" | "tarball" | "app" | "path" | "configured";
+  // juliaup channels running this executable, e.g. ["release", "1.11"]
+  channels: string[];
+  // Whether this is the Julia used when a call has no julia_version
+  default: boolean;
+}
+
+// Candidate before deduplication; version null when it must be asked
+type Candidate = Omit<JuliaInstallation, "version" | "default"> & { version: string | null };
+
+interface JuliaupConfig {
+  Default?: string;
+  InstalledVersions?: Record<string, { Path: string }>;
+  InstalledChannels?: Record<string, { Version?: string; Path?: string; Command?: string }>;
+}
+
+const EXECUTABLE = process.platform === "win32" ? "julia.exe" : "julia";
+
+// Time `julia --version` may take
+const VERSION_TIMEOUT_MS = 10_000;
+
+function juliaupDir(): string {
+  return join(process.env.JULIAUP_DEPOT_PATH || join(homedir(), ".julia"), "juliaup");
+}
+
+// The juliaup launcher (~/.juliaup/bin/julia) runs whatever channel is the
+// default, so it is not an installation of its own
+function isLauncher(executable: string): boolean {
+  return basename(realPath(executable)).startsWith("julialauncher");
+}
+
+function realPath(path: string): string {
+  try {
+    return realpathSync(path);
+  } catch {
+    return path;
+  }
+}
+
+// Channels and versions installed with juliaup, and its default channel
+function juliaupCandidates(): { candidates: Candidate[]; defaultChannel: string | null } {
+  const dir = juliaupDir();
+  let config: JuliaupConfig;
+  try {
+    config = JSON.parse(readFileSync(join(dir, "juliaup.json"), "utf8"));
+  } catch {
+    return { candidates: [], defaultChannel: null };
+  }
+  const candidates: Candidate[] = [];
+  const versions = config.InstalledVersions ?? {};
+  for (const [channel, entry] of Object.entries(config.InstalledChannels ?? {})) {
+    if (entry.Command) {
+      // Linked channel (`juliaup link`)
+      candidates.push({ version: null, executable: entry.Command, source: "juliaup", channels: [channel] });
+    } else if (entry.Path) {
+      // Nightly and pull request builds
+      candidates.push({ version: null, executable: join(dir, entry.Path, "bin", EXECUTABLE), source: "juliaup", channels: [channel] });
+    } else if (entry.Version && versions[entry.Version]) {
+      candidates.push({
+        version: entry.Version.split("+")[0],
+        executable: join(dir, versions[entry.Version].Path, "bin", EXECUTABLE),
+        source: "juliaup",
+        channels: [channel],
+      });
+    }
+  }
+  // Versions no channel points to
+  for (const [version, entry] of Object.entries(versions)) {
+    candidates.push({ version: version.split("+")[0], executable: join(dir, entry.Path, "bin", EXECUTABLE), source: "juliaup", channels: [] });
+  }
+  return { candidates, defaultChannel: config.Default ?? null };
+}
+
+function entries(dir: string): string[] {
+  try {
+    return readdirSync(dir);
+  } catch {
+    return [];
+  }
+}
+
+// julia-1.10.4 style directories from official tarballs and installers, and
+// Julia-1.10.app bundles
+function unpackedCandidates(): Candidate[] {
+  const home = homedir();
+  const tarballDirs = ["/opt", "/usr/local", home, join(home, ".local"), join(home, "opt")];
+  if (process.env.LOCALAPPDATA) tarballDirs.push(join(process.env.LOCALAPPDATA, "Programs"));
+  const candidates: Candidate[] = [];
+  for (const dir of tarballDirs) {
+    for (const name of entries(dir)) {
+      const match = name.match(/^[Jj]ulia-(\d+\.\d+\.\d+\S*)$/);
+      if (match) {
+        candidates.push({ version: match[1], executable: join(dir, name, "bin", EXECUTABLE), source: "tarball", channels: [] });
+      }
+    }
+  }
+  for (const dir of ["/Applications", join(home, "Applications")]) {
+    for (const name of entries(dir)) {
+      // Bundles are named by minor version only, so the version is asked
+      if (/^Julia-[\d.]+\.app$/.test(name)) {
+        const executable = join(dir, name, "Contents", "Resources", "julia", "bin", "julia");
+        candidates.push({ version: null, executable, source: "app", channels: [] });
+      }
+    }
+  }
+  candidates.push({ version: null, executable: join("/opt", "julia", "bin", EXECUTABLE), source: "tarball", channels: [] });
+  return candidates;
+}
+
+// `julia` in every PATH directory, and in directories GUI apps often lack on
+// their PATH
+function pathCandidates(): Candidate[] {
+  const dirs = (process.env.PATH ?? "").split(delimiter).filter(Boolean);
+  dirs.push(join(homedir(), ".juliaup", "bin"), "/opt/homebrew/bin", "/usr/local/bin");
+  return dirs.map(dir => ({ version: null, executable: join(dir, EXECUTABLE), source: "path" as const, channels: [] }));
+}
+
+// Julia to use when none is configured: the juliaup launcher (which runs the
+// default channel), `julia` on PATH or in Homebrew's bin directories, else the
+// newest unpacked install
+export function defaultJuliaPath(): string {
+  const launcher = join(homedir(), ".juliaup", "bin", EXECUTABLE);
+  if (existsSync(launcher)) return launcher;
+  const onPath = whichJulia(EXECUTABLE);
+  if (onPath) return onPath;
+  const known = ["/opt/homebrew/bin/julia", "/usr/local/bin/julia"].find(path => existsSync(path));
+  if (known) return known;
+  const unpacked = unpackedCandidates()
+    .filter(candidate => existsSync(candidate.executable))
+    .sort((a, b) => compareVersions(b.version ?? "0", a.version ?? "0"));
+  return unpacked[0]?.executable ?? "julia";
+}
+
+// The executable a command name such as "julia" runs
+export function whichJulia(command: string): string | null {
+  if (command.includes("/") || command.includes("\\")) return existsSync(command) ? command : null;
+  for (const dir of (process.env.PATH ?? "").split(delimiter).filter(Boolean)) {
+    const candidate = join(dir, command);
+    if (existsSync(candidate)) return candidate;
+  }
+  return null;
+}
+
+async function askVersion(executable: string): Promise<string | null> {
+  try {
+    const { stdout } = await execFileAsync(executable, ["--version"], { timeout: VERSION_TIMEOUT_MS });
+    return stdout.match(/(\d+\.\d+\.\d+\S*)/)?.[1] ?? null;
+  } catch (error) {
+    log.debug(`Could not run ${executable} --version`, error);
+    return null;
+  }
+}
+
+// Negative when a is older than b; prereleases (1.12.0-DEV) sort before
+// their release
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => {
+    const [release, prerelease] = version.split(/-(.*)/s);
+    return { parts: release.split(".").map(part => parseInt(part, 10) || 0), prerelease: prerelease ?? null };
+  };
+  const x = parse(a);
+  const y = parse(b);
+  for (let i = 0; i < Math.max(x.parts.length, y.parts.length); i++) {
+    const difference = (x.parts[i] ?? 0) - (y.parts[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  if (x.prerelease === y.prerelease) return 0;
+  if (x.prerelease === null) return 1;
+  if (y.prerelease === null) return -1;
+  return x.prerelease.localeCompare(y.prerelease);
+}
+
+// Whether a requested version such as "1.10" or "v1.10.4" covers a version
+function versionMatches(version: string, requested: string): boolean {
+  const wanted = requested.replace(/^v/, "").split(".");
+  const parts = version.split(/[.-]/);
+  return wanted.every((part, i) => parts[i] === part);
+}
+
+export async function discoverJuliaInstallations(defaultJulia: string): Promise<JuliaInstallation[]> {
+  const juliaup = juliaupCandidates();
+  const candidates = [...juliaup.candidates, ...unpackedCandidates(), ...pathCandidates()]
+    .filter(candidate => existsSync(candidate.executable));
+
+  // One entry per executable, keeping the first source and every channel
+  const found = new Map<string, Candidate>();
+  for (const candidate of candidates) {
+    const key = realPath(candidate.executable);
+    if (isLauncher(key)) continue;
+    const existing = found.get(key);
+    if (existing) {
+      existing.channels.push(...candidate.channels.filter(channel => !existing.channels.includes(channel)));
+      existing.version ??= candidate.version;
+    } else {
+      found.set(key, { ...candidate, channels: [...candidate.channels] });
+    }
+  }
+
+  // The default Julia: the configured or found executable, or through the
+  // launcher, juliaup's default channel
+  const defaultExecutable = whichJulia(defaultJulia);
+  let defaultKey: string | null = null;
+  if (defaultExecutable && isLauncher(defaultExecutable)) {
+    defaultKey = [...found.entries()].find(([, candidate]) =>
+      juliaup.defaultChannel !== null && candidate.channels.includes(juliaup.defaultChannel))?.[0] ?? null;
+  } else if (defaultExecutable) {
+    defaultKey = realPath(defaultExecutable);
+    if (!found.has(defaultKey)) {
+      found.set(defaultKey, { version: null, executable: defaultExecutable, source: "configured", channels: [] });
+    }
+  }
+
+  const installations = await Promise.all([...found.entries()].map(async ([key, candidate]) => {
+    const version = candidate.version ?? await askVersion(candidate.executable);
+    return version === null ? null : { ...candidate, version, default: key === defaultKey };
+  }));
+  return installations
+    .filter((installation): installation is JuliaInstallation => installation !== null)
+    .sort((a, b) => compareVersions(b.version, a.version));
+}
+
+// Installed versions, discovered once (and again on request), and the
+// executable a julia_version argument selects
+export class JuliaVersions {
+  private installations: Promise<JuliaInstallation[]> | null = null;
+
+  constructor(private defaultJulia: string) {}
+
+  list(refresh = false): Promise<JuliaInstallation[]> {
+    if (!this.installations || refresh) {
+      this.installations = discoverJuliaInstallations(this.defaultJulia);
+      this.installations.catch(() => { this.installations = null; });
+    }
+    return this.installations;
+  }
+
+  // The executable for a juliaup channel ("lts", "release", "nightly",
+  // "1.10"), a version or version prefix ("1.10", "1.10.4"; the newest
+  // match wins), or "default". The default Julia is returned as configured,
+  // so calls selecting it share its workers.
+  async resolve(requested: string): Promise<string> {
+    const installations = await this.list();
+    const match = requested === "default" ?
+      installations.find(installation => installation.default) :
+      installations.find(installation => installation.channels.includes(requested)) ??
+        installations.find(installation => versionMatches(installation.version, requested));
+    if (!match) {
+      const available = [...new Set(installations.flatMap(installation => [...installation.channels, installation.version]))];
+      throw new JuliaToolError("invalid_argument",
+        `No installed Julia matches julia_version '${requested}'` +
+          (installations.length === 0 ? "; no Julia installations were found" : ""),
+        available);
+    }
+    return match.default ? this.defaultJulia : match.executable;
+  }
+}
@@ -0,0 +1,491 @@
+import { spawn, ChildProcess } from "child_process";
+import { JULIA_PRELUDE } from "./prelude.js";
+import { log } from "./logger.js";
+
+// Julia program run by every worker process. It reads framed requests from
+// stdin, evaluates each one in a fresh anonymous module (so requests cannot
+// see each other's globals, while packages loaded with `using` stay resident),
+// and writes framed responses to the original stdout. The request's JSON
+// arguments are decoded into an `args` constant visible to the code.
+//
+// Request frame:  "<id> <code length> <args length>\n<code><args>"
+// Response frame: "<id> <ok|error|ready> <stdout length> <stderr length>\n<stdout><stderr>"
+// While a request runs, each line it prints to stderr is also sent as a
+// "<id> stderr <length> 0\n<line>" frame. The stdout of an "error" frame is the
+// JULIADOC_ERROR line written by JuliaDocMCP.report_error.
+const WORKER_SCRIPT = JULIA_PRELUDE + `
+const __JULIADOC_OUT = stdout
+const __JULIADOC_OUT_LOCK = ReentrantLock()
+
+# Run f with stdout going to a file and stderr to a pipe. Every stderr line is
+# also forwarded as a "stderr" frame while the request runs, so the server can
+# report package loading and precompilation progress.
+function __juliadoc_capture(f, id)
+  out_path, out_io = mktemp()
+  err_pipe = Pipe()
+  Base.link_pipe!(err_pipe; reader_supports_async=true, writer_supports_async=true)
+  err_buf = IOBuffer()
+  forwarder = @async while !eof(err_pipe)
+    line = readline(err_pipe; keep=true)
+    write(err_buf, line)
+    __juliadoc_respond(id, "stderr", line, "")
+  end
+  status = "ok"
+  message = ""
+  try
+    redirect_stdout(out_io) do
+      redirect_stderr(err_pipe.in) do
+        f()
+      end
+    end
+  catch e
+    status = "error"
+    message = sprint(JuliaDocMCP.report_error, e, catch_backtrace())
+  finally
+    close(out_io)
+    close(err_pipe.in)
+    wait(forwarder)
+  end
+  out = status == "ok" ? read(out_path, String) : message
+  err = String(take!(err_buf))
+  rm(out_path; force=true)
+  return status, out, err
+end
+
+function __juliadoc_respond(id, status, out, err)
+  lock(__JULIADOC_OUT_LOCK) do
+    write(__JULIADOC_OUT, string(id, " ", status, " ", sizeof(out), " ", sizeof(err), "\\n"), out, err)
+    flush(__JULIADOC_OUT)
+  end
+end
+
+function __juliadoc_serve()
+  __juliadoc_respond(0, "ready", "", "")
+  while !eof(stdin)
+    header = readline(stdin)
+    isempty(header) && continue
+    id, code_len, args_len = parse.(Int, split(header))
+    code = String(read(stdin, code_len))
+    args_json = String(read(stdin, args_len))
+    status, out, err = __juliadoc_capture(id) do
+      mod = Module(:JuliaDocRequest)
+      Core.eval(mod, :(const JuliaDocMCP = $JuliaDocMCP))
+      Core.eval(mod, :(const args = $(JuliaDocMCP.parse_json(args_json))))
+      Base.include_string(mod, code, "juliadoc-request")
+    end
+    __juliadoc_respond(id, status, out, err)
+  end
+end
+
+__juliadoc_serve()
+`;
+
+// Output of a single Julia evaluation, mirroring what execAsync returns
+export interface JuliaOutput {
+  stdout: string;
+  stderr: string;
+}
+
+export interface WorkerPoolOptions {
+  juliaPath: string;
+  projectPath: string | null;
+  size: number;
+  timeoutSeconds: number;
+  // Extra environment variables, such as the package allow and deny lists
+  env?: Record<string, string>;
+}
+
+// Environment for Julia child processes
+export function juliaEnv(projectPath: string | null, extra: Record<string, string> = {}): NodeJS.ProcessEnv {
+  return {
+    ...process.env,
+    ...extra,
+    // Ensure JULIA_PROJECT is set in the environment
+    JULIA_PROJECT: projectPath || '',
+    // Preserve other important Julia env vars
+    JULIA_DEPOT_PATH: process.env.JULIA_DEPOT_PATH,
+    JULIA_LOAD_PATH: process.env.JULIA_LOAD_PATH,
+    PATH: process.env.PATH,
+  };
+}
+
+// Raised when the code itself threw inside Julia; the message is the Julia
+// error with its backtrace
+export class JuliaEvalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JuliaEvalError";
+  }
+}
+
+// Raised when a request runs longer than the configured timeout; the worker
+// running it is killed and replaced
+export class JuliaTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JuliaTimeoutError";
+  }
+}
+
+// Raised when the client cancelled the call; the process running it is killed
+export class JuliaCancelledError extends Error {
+  constructor(message = "Cancelled by the client") {
+    super(message);
+    this.name = "JuliaCancelledError";
+  }
+}
+
+// Raised when no worker could run the request (failed to start or crashed);
+// callers may retry in one-shot mode
+export class WorkerUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkerUnavailableError";
+  }
+}
+
+// Tool arguments, sent to Julia as JSON
+export type JuliaArgs = Record<string, unknown>;
+
+// Per-call limits and hooks
+export interface RunOptions {
+  // Overrides the pool's timeout for this call
+  timeoutSeconds?: number;
+  // Aborting kills the Julia process running the call
+  signal?: AbortSignal;
+  // Receives each line Julia prints to stderr while the call runs
+  onStderr?: (line: string) => void;
+}
+
+interface PendingRequest {
+  id: number;
+  code: string;
+  args: string;
+  options: RunOptions;
+  resolve: (output: JuliaOutput) => void;
+  reject: (error: Error) => void;
+}
+
+// Lines of Julia's stderr that report package loading, installation or
+// precompilation, as a short progress message
+export function loadingProgress(line: string): string | null {
+  const text = line.replace(/\x1b\[[0-9;]*m/g, "").trim();
+  if (/^(\[ Info: )?Precompiling\b/.test(text) ||
+      /^(\d+(\.\d+)? m?s\s+)?[✓✗◐◓◑◒]\s+\S/.test(text) ||
+      /dependenc(y|ies) successfully precompiled/.test(text) ||
+      /^(\[ Info: )?(Downloading|Installing|Installed) (artifact|package|known registries)/i.test(text)) {
+    return text.replace(/^\[ Info: /, "");
+  }
+  return null;
+}
+
+// Splits a stream of response frames (see WORKER_SCRIPT) into their parts
+export class FrameReader {
+  private buffer = Buffer.alloc(0);
+
+  constructor(private onFrame: (id: number, status: string, stdout: string, stderr: string) => void) {}
+
+  // Parse as many complete response frames as the buffer holds
+  push(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const newline = this.buffer.indexOf(0x0a);
+      if (newline < 0) return;
+      const [id, status, outLength, errLength] = this.buffer.subarray(0, newline).toString().split(" ");
+      const bodyStart = newline + 1;
+      const outEnd = bodyStart + Number(outLength);
+      const errEnd = outEnd + Number(errLength);
+      if (this.buffer.length < errEnd) return;
+
+      const stdout = this.buffer.subarray(bodyStart, outEnd).toString();
+      const stderr = this.buffer.subarray(outEnd, errEnd).toString();
+      this.buffer = this.buffer.subarray(errEnd);
+      this.onFrame(Number(id), status, stdout, stderr);
+    }
+  }
+}
+
+// A single long-lived Julia process speaking the framed protocol above
+class JuliaWorker {
+  private process: ChildProcess;
+  private frames = new FrameReader((id, status, stdout, stderr) => this.onFrame(id, status, stdout, stderr));
+  private current: PendingRequest | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private ready: Promise<void>;
+  private markReady!: () => void;
+  private failReady!: (error: Error) => void;
+  private started = false;
+  alive = true;
+
+  constructor(private options: WorkerPoolOptions, private onSettled: (worker: JuliaWorker) => void) {
+    const args = ["--startup-file=no"];
+    if (options.projectPath) {
+      args.push(`--project=${options.projectPath}`);
+    }
+    args.push("-e", WORKER_SCRIPT);
+
+    this.ready = new Promise((resolve, reject) => {
+      this.markReady = resolve;
+      this.failReady = reject;
+    });
+    // Avoid unhandled rejections when a worker dies before anyone awaits it
+    this.ready.catch(() => {});
+
+    this.process = spawn(options.juliaPath, args, {
+      stdio: ["pipe", "pipe", "pipe"],
+      env: juliaEnv(options.projectPath, options.env),
+    });
+    log.info(`Started Julia worker (pid ${this.process.pid})`);
+
+    this.process.stdout!.on("data", (chunk: Buffer) => this.frames.push(chunk));
+    this.process.stderr!.on("data", (chunk: Buffer) => {
+      log.debug(`Julia worker ${this.process.pid}: ${chunk.toString().trimEnd()}`);
+    });
+    this.process.on("error", (error) => this.terminate(new WorkerUnavailableError(`Julia worker failed: ${error.message}`)));
+    // Writing to a worker that just died fails with EPIPE
+    this.process.stdin!.on("error", (error) => {
+      this.terminate(new WorkerUnavailableError(`Julia worker stopped reading requests: ${error.message}`));
+    });
+    this.process.on("exit", (code, signal) => {
+      this.terminate(new WorkerUnavailableError(`Julia worker exited (code ${code}, signal ${signal})`));
+    });
+  }
+
+  get busy(): boolean {
+    return this.current !== null;
+  }
+
+  isRunning(request: PendingRequest): boolean {
+    return this.current === request;
+  }
+
+  async run(request: PendingRequest): Promise<void> {
+    this.current = request;
+    // Armed before the worker is ready, so a worker stuck starting up (on a
+    // depot or precompilation lock, or a broken sysimage) fails the request
+    // instead of stalling it and the queue behind it
+    const timeoutSeconds = request.options.timeoutSeconds ?? this.options.timeoutSeconds;
+    this.timer = setTimeout(() => {
+      this.terminate(new JuliaTimeoutError(this.started ?
+        `Julia worker timed out after ${timeoutSeconds} seconds` :
+        `Julia worker did not start within ${timeoutSeconds} seconds`));
+    }, timeoutSeconds * 1000);
+    try {
+      await this.ready;
+    } catch (error) {
+      return; // terminate() already rejected the request
+    }
+    if (!this.alive || this.current !== request) return;
+
+    const header = `${request.id} ${Buffer.byteLength(request.code)} ${Buffer.byteLength(request.args)}\n`;
+    this.process.stdin!.write(header + request.code + request.args);
+  }
+
+  private onFrame(id: number, status: string, stdout: string, stderr: string): void {
+    if (status === "ready") {
+      this.started = true;
+      this.markReady();
+      return;
+    }
+    const request = this.current;
+    if (!request || request.id !== id) {
+      log.warning(`Julia worker ${this.process.pid} sent a response for unknown request ${id}`);
+      return;
+    }
+    if (status === "stderr") {
+      request.options.onStderr?.(stdout);
+      return;
+    }
+    this.clearTimer();
+    this.current = null;
+    if (status === "ok") {
+      request.resolve({ stdout, stderr });
+    } else {
+      request.reject(new JuliaEvalError(stdout));
+    }
+    this.onSettled(this);
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Kill the process and fail whatever it was doing
+  terminate(error: Error): void {
+    if (!this.alive) return;
+    this.alive = false;
+    this.clearTimer();
+    this.failReady(error);
+    if (this.current) {
+      this.current.reject(error);
+      this.current = null;
+    }
+    if (this.process.exitCode === null && this.process.signalCode === null) {
+      this.process.kill("SIGKILL");
+    }
+    log.warning(error.message);
+    this.onSettled(this);
+  }
+}
+
+// Fixed-size pool of Julia workers. Requests are queued and handed to the
+// first idle worker; dead workers are replaced on the next request.
+export class JuliaWorkerPool {
+  private workers: JuliaWorker[] = [];
+  private queue: PendingRequest[] = [];
+  private nextId = 1;
+
+  constructor(private options: WorkerPoolOptions) {}
+
+  // Whether any worker process is alive
+  get running(): boolean {
+    return this.workers.some(worker => worker.alive);
+  }
+
+  // Whether no request is queued or in progress
+  get idle(): boolean {
+    return this.queue.length === 0 && !this.workers.some(worker => worker.busy);
+  }
+
+  run(code: string, args: JuliaArgs = {}, options: RunOptions = {}): Promise<JuliaOutput> {
+    return new Promise((resolve, reject) => {
+      const { signal } = options;
+      if (signal?.aborted) {
+        reject(new JuliaCancelledError());
+        return;
+      }
+      // A cancelled request leaves the queue, or takes its worker down with it
+      const cancel = () => {
+        const queued = this.queue.indexOf(request);
+        if (queued >= 0) {
+          this.queue.splice(queued, 1);
+          request.reject(new JuliaCancelledError());
+        } else {
+          this.workers.find(worker => worker.isRunning(request))?.terminate(new JuliaCancelledError());
+        }
+      };
+      const request: PendingRequest = {
+        id: this.nextId++,
+        code,
+        args: JSON.stringify(args),
+        options,
+        resolve: (output) => {
+          signal?.removeEventListener("abort", cancel);
+          resolve(output);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", cancel);
+          reject(error);
+        },
+      };
+      signal?.addEventListener("abort", cancel, { once: true });
+      this.queue.push(request);
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    this.workers = this.workers.filter(worker => worker.alive);
+    while (this.queue.length > 0) {
+      let worker = this.workers.find(w => !w.busy);
+      if (!worker && this.workers.length < this.options.size) {
+        worker = new JuliaWorker(this.options, () => this.dispatch());
+        this.workers.push(worker);
+      }
+      if (!worker) return;
+      worker.run(this.queue.shift()!);
+    }
+  }
+
+  shutdown(): void {
+    const error = new WorkerUnavailableError("Julia worker pool is shutting down");
+    for (const request of this.queue.splice(0)) {
+      request.reject(error);
+    }
+    for (const worker of this.workers) {
+      worker.terminate(error);
+    }
+    this.workers = [];
+  }
+}
+
+// Run code in a fresh `julia -e` process, passing the code as a program
+// argument and the arguments as JSON on stdin. Failures are reported on
+// stderr the way workers report them. Used when persistent workers are
+// disabled or cannot start. The process is killed on timeout (when one is
+// given) or cancellation.
+export function runJuliaOnce(
+  options: Pick<WorkerPoolOptions, "juliaPath" | "projectPath" | "env">,
+  code: string,
+  args: JuliaArgs = {},
+  { timeoutSeconds, signal, onStderr }: RunOptions = {}
+): Promise<JuliaOutput> {
+  const script = JULIA_PRELUDE + `
+const args = JuliaDocMCP.parse_json(read(stdin, String))
+try
+  Base.include_string(Main, ARGS[1], "juliadoc-request")
+catch e
+  JuliaDocMCP.report_error(stderr, e, catch_backtrace())
+  exit(1)
+end
+`;
+  const flags = options.projectPath ? [`--project=${options.projectPath}`] : [];
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new JuliaCancelledError());
+      return;
+    }
+    const child = spawn(options.juliaPath, [...flags, "-e", script, code], {
+      stdio: ["pipe", "pipe", "pipe"],
+      env: juliaEnv(options.projectPath, options.env),
+    });
+    let stdout = "";
+    let stderr = "";
+    let stopped: Error | null = null;
+    const stop = (error: Error) => {
+      stopped = error;
+      child.kill("SIGKILL");
+    };
+    const timer = timeoutSeconds === undefined ? null : setTimeout(() => {
+      stop(new JuliaTimeoutError(`Julia timed out after ${timeoutSeconds} seconds`));
+    }, timeoutSeconds * 1000);
+    const cancel = () => stop(new JuliaCancelledError());
+    signal?.addEventListener("abort", cancel, { once: true });
+    const cleanup = () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", cancel);
+    };
+
+    child.stdout.setEncoding("utf8");
+    child.stderr.setEncoding("utf8");
+    child.stdout.on("data", (chunk: string) => { stdout += chunk; });
+    let partial = "";
+    child.stderr.on("data", (chunk: string) => {
+      stderr += chunk;
+      const lines = (partial + chunk).split("\n");
+      partial = lines.pop()!;
+      lines.forEach(line => onStderr?.(line + "\n"));
+    });
+    child.on("error", (error) => {
+      cleanup();
+      reject(error);
+    });
+    // Julia exiting before it read the arguments; "close" reports the failure
+    child.stdin.on("error", (error) => log.debug(`Could not send arguments to Julia: ${error.message}`));
+    child.on("close", (exitCode) => {
+      cleanup();
+      if (stopped) {
+        reject(stopped);
+      } else if (exitCode === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(new JuliaEvalError(stderr || `Julia exited with code ${exitCode}`));
+      }
+    });
+    child.stdin.end(JSON.stringify(args));
+  });
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DiskCache, environmentKey } from "../src/cache.js";
+
+const LIMITS = { maxBytes: 1_000_000, maxEntries: 100 };
+const LABEL = { julia_version: "1.11.0", project: "/work/Project" };
+
+describe("DiskCache", () => {
+  let dir: string;
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), "juliadoc-cache-")); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("stores values and counts hits and misses", () => {
+    const cache = new DiskCache(dir, LIMITS);
+    assert.equal(cache.get("env", "get-doc:Base.sort"), undefined);
+    cache.set("env", "get-doc:Base.sort", { text: "sort(v)" });
+    assert.deepEqual(cache.get("env", "get-doc:Base.sort"), { text: "sort(v)" });
+    assert.equal(cache.get("other", "get-doc:Base.sort"), undefined);
+    const stats = cache.stats();
+    assert.equal(stats.entries, 1);
+    assert.equal(stats.hits, 1);
+    assert.equal(stats.misses, 2);
+  });
+
+  it("accounts for the size of every entry once", () => {
+    const cache = new DiskCache(dir, LIMITS);
+    cache.set("env", "a", "x".repeat(100));
+    const one = cache.stats().bytes;
+    assert.ok(one > 100);
+    // Overwriting replaces the old size
+    cache.set("env", "a", "x".repeat(100));
+    assert.equal(cache.stats().bytes, one);
+    cache.set("env", "b", "x".repeat(100));
+    assert.equal(cache.stats().bytes, 2 * one);
+    assert.deepEqual(cache.stats().environments.map(e => [e.key, e.entries, e.bytes]), [["env", 2, 2 * one]]);
+  });
+
+  it("evicts the least recently used entries beyond the entry limit", () => {
+    const cache = new DiskCache(dir, { ...LIMITS, maxEntries: 2 });
+    cache.set("env", "a", 1);
+    cache.set("env", "b", 2);
+    // Reading a makes b the least recently used
+    assert.equal(cache.get("env", "a"), 1);
+    cache.set("env", "c", 3);
+    assert.equal(cache.get("env", "b"), undefined);
+    assert.equal(cache.get("env", "a"), 1);
+    assert.equal(cache.get("env", "c"), 3);
+    assert.equal(cache.stats().entries, 2);
+  });
+
+  it("evicts entries beyond the size limit", () => {
+    const cache = new DiskCache(dir, { ...LIMITS, maxBytes: 200 });
+    cache.set("env", "a", "x".repeat(100));
+    cache.set("env", "b", "x".repeat(100));
+    assert.equal(cache.get("env", "a"), undefined);
+    assert.equal(cache.get("env", "b"), "x".repeat(100));
+    assert.ok(cache.stats().bytes <= 200);
+  });
+
+  it("finds its entries again after a restart", () => {
+    const cache = new DiskCache(dir, LIMITS);
+    cache.set("env", "a", 1);
+    cache.set("env", "b", 2);
+    const restarted = new DiskCache(dir, LIMITS);
+    assert.equal(restarted.stats().entries, 2);
+    assert.equal(restarted.stats().bytes, cache.stats().bytes);
+    assert.equal(restarted.get("env", "b"), 2);
+  });
+
+  it("drops the namespaces of an environment whose manifest changed", () => {
+    const cache = new DiskCache(dir, LIMITS);
+    cache.register("old", LABEL);
+    cache.set("old", "a", 1);
+    cache.register("other-project", { ...LABEL, project: "/work/Other" });
+    cache.set("other-project", "a", 2);
+    cache.register("other-julia", { ...LABEL, julia_version: "1.10.5" });
+    cache.set("other-julia", "a", 3);
+
+    cache.register("new", LABEL);
+    assert.equal(cache.get("old", "a"), undefined);
+    assert.equal(existsSync(cache.namespaceDir("old")), false);
+    assert.equal(cache.get("other-project", "a"), 2);
+    assert.equal(cache.get("other-julia", "a"), 3);
+    assert.deepEqual(cache.stats().environments.map(e => e.key).sort(), ["other-julia", "other-project"]);
+  });
+
+  it("clears one namespace or everything", () => {
+    const cache = new DiskCache(dir, LIMITS);
+    cache.set("one", "a", 1);
+    cache.set("one", "b", 2);
+    cache.set("two", "a", 3);
+    assert.equal(cache.clear("one"), 2);
+    assert.equal(cache.get("two", "a"), 3);
+    assert.equal(cache.clear(), 1);
+    assert.equal(cache.stats().entries, 0);
+    assert.equal(cache.stats().bytes, 0);
+  });
+
+  it("carries on uncached when the directory cannot be written", () => {
+    // A directory cannot be created under a file
+    writeFileSync(join(dir, "file"), "");
+    const cache = new DiskCache(join(dir, "file"), LIMITS);
+    assert.doesNotThrow(() => cache.register("env", LABEL));
+    assert.doesNotThrow(() => cache.set("env", "a", 1));
+    assert.equal(cache.get("env", "a"), undefined);
+  });
+});
+
+describe("environmentKey", () => {
+  it("changes with the Julia version, the project and the manifest contents", () => {
+    const dir = mkdtempSync(join(tmpdir(), "juliadoc-cache-"));
+    try {
+      const manifest = join(dir, "Manifest.toml");
+      writeFileSync(manifest, "[[deps.Example]]\nversion = \"0.5.3\"\n");
+      const key = environmentKey("1.11.0", dir, manifest);
+      assert.equal(environmentKey("1.11.0", dir, manifest), key);
+      assert.notEqual(environmentKey("1.10.5", dir, manifest), key);
+      assert.notEqual(environmentKey("1.11.0", null, manifest), key);
+      writeFileSync(manifest, "[[deps.Example]]\nversion = \"0.5.4\"\n");
+      assert.notEqual(environmentKey("1.11.0", dir, manifest), key);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { extractDoctests, lineDiff, normalizeOutput } from "../src/doctests.js";
+
+const DOCSTRING = `
+    double(x)
+
+Double \`x\`.
+
+\`\`\`jldoctest
+julia> double(2)
+4
+
+julia> double(
+           3)
+6
+\`\`\`
+
+\`\`\`jldoctest shared; setup = :(using Example)
+x = double(5)
+println(x)
+# output
+10
+\`\`\`
+
+\`\`\`julia
+julia> double(1.5)
+3.0
+\`\`\`
+
+\`\`\`julia
+double(7)
+\`\`\`
+`;
+
+describe("extractDoctests", () => {
+  it("splits REPL doctests into steps", () => {
+    const [block] = extractDoctests("Example.double", DOCSTRING, false);
+    assert.equal(block.binding, "Example.double");
+    assert.equal(block.name, null);
+    assert.equal(block.source, "jldoctest");
+    assert.equal(block.kind, "repl");
+    assert.equal(block.problem, null);
+    assert.deepEqual(block.steps, [
+      { input: "double(2)", expected: "4\n" },
+      { input: "double(\n    3)", expected: "6" },
+    ]);
+  });
+
+  it("reads the name and options of script doctests", () => {
+    const block = extractDoctests("Example.double", DOCSTRING, false)[1];
+    assert.equal(block.name, "shared");
+    assert.equal(block.options, "setup = :(using Example)");
+    assert.equal(block.kind, "script");
+    assert.deepEqual(block.steps, [{ input: "x = double(5)\nprintln(x)", expected: "10" }]);
+  });
+
+  it("includes REPL examples only when asked", () => {
+    assert.equal(extractDoctests("Example.double", DOCSTRING, false).length, 2);
+    const blocks = extractDoctests("Example.double", DOCSTRING, true);
+    // The julia block without prompts is not an example
+    assert.equal(blocks.length, 3);
+    assert.equal(blocks[2].source, "example");
+    assert.deepEqual(blocks[2].steps, [{ input: "double(1.5)", expected: "3.0" }]);
+  });
+
+  it("reports script doctests without output", () => {
+    const text = "```jldoctest\ndouble(1)\n```";
+    assert.equal(extractDoctests("f", text, false)[0].problem, "Script doctest has no '# output' line");
+    const quiet = extractDoctests("f", "```jldoctest; output = false\ndouble(1)\n```", false)[0];
+    assert.equal(quiet.problem, null);
+    assert.deepEqual(quiet.steps, [{ input: "double(1)", expected: "" }]);
+  });
+
+  it("strips the indentation of indented fences", () => {
+    const text = "  ```jldoctest\n  julia> 1 + 1\n  2\n  ```";
+    assert.deepEqual(extractDoctests("f", text, false)[0].steps, [{ input: "1 + 1", expected: "2" }]);
+  });
+});
+
+describe("normalizeOutput", () => {
+  it("drops trailing whitespace, surrounding blank lines and stacktraces", () => {
+    assert.equal(normalizeOutput("\n\n4  \n\n"), "4");
+    assert.equal(normalizeOutput("ERROR: DomainError\nStacktrace:\n [1] sqrt"), "ERROR: DomainError");
+    assert.equal(normalizeOutput("Stacktrace:\n [1] f"), "Stacktrace:\n [1] f");
+  });
+});
+
+describe("lineDiff", () => {
+  it("marks removed and added lines around common ones", () => {
+    assert.equal(lineDiff("a\nb\nc", "a\nx\nc"), "  a\n+ x\n- b\n  c");
+    assert.equal(lineDiff("a\nb", "a\nb\nc"), "  a\n  b\n+ c");
+    assert.equal(lineDiff("a\nb\nc", "b"), "- a\n  b\n- c");
+  });
+
+  it("shows equal outputs unchanged", () => {
+    assert.equal(lineDiff("1\n2", "1\n2"), "  1\n  2");
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { stderrWarnings } from "../src/errors.js";
+
+describe("stderrWarnings", () => {
+  it("keeps each log record as one warning", () => {
+    const stderr = [
+      "┌ Warning: `foo` is deprecated, use `bar` instead.",
+      "│   caller = top-level scope at none:1",
+      "└ @ Core none:1",
+      "┌ Info: Loaded",
+      "└ @ Main none:2",
+    ].join("\n");
+    assert.deepEqual(stderrWarnings(stderr), [
+      "┌ Warning: `foo` is deprecated, use `bar` instead.\n│   caller = top-level scope at none:1\n└ @ Core none:1",
+      "┌ Info: Loaded\n└ @ Main none:2",
+    ]);
+  });
+
+  it("keeps other lines, without blank lines and loading progress", () => {
+    const stderr = "\n[ Info: Precompiling Example [7876af07]\n  ✓ Example\nWARNING: replacing module Foo.\n\n";
+    assert.deepEqual(stderrWarnings(stderr), ["WARNING: replacing module Foo."]);
+  });
+
+  it("strips colors and drops repeated warnings", () => {
+    const line = "\x1b[33m\x1b[1m┌ \x1b[22m\x1b[39m\x1b[33m\x1b[1mWarning: \x1b[22m\x1b[39mslow";
+    const record = `${line}\n\x1b[33m\x1b[1m└ \x1b[22m\x1b[39m@ Main none:1`;
+    assert.deepEqual(stderrWarnings(`${record}\n${record}\n`), ["┌ Warning: slow\n└ @ Main none:1"]);
+  });
+
+  it("keeps an unterminated record", () => {
+    assert.deepEqual(stderrWarnings("┌ Warning: cut off\n│   x = 1"), ["┌ Warning: cut off\n│   x = 1"]);
+  });
+
+  it("finds nothing in empty output", () => {
+    assert.deepEqual(stderrWarnings(""), []);
+  });
+});
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { devDependencies, sourceTree } from "../src/outline.js";
+
+const PROJECT = 'name = "Example"\nuuid = "7876af07-990d-54b4-ab0e-23690620f79a"\n';
+
+// Writes files given by paths relative to `dir`
+function writeFiles(dir: string, files: Record<string, string>): void {
+  for (const [file, text] of Object.entries(files)) {
+    mkdirSync(dirname(join(dir, file)), { recursive: true });
+    writeFileSync(join(dir, file), text);
+  }
+}
+
+describe("sourceTree", () => {
+  let dir: string;
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), "juliadoc-outline-")); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("finds the package entry and the files under the given directories", () => {
+    writeFiles(dir, {
+      "Project.toml": PROJECT,
+      "src/Example.jl": "",
+      "src/util/b.jl": "",
+      "src/util/a.jl": "",
+      "src/notes.md": "",
+      "ext/ExampleExt.jl": "",
+      "test/runtests.jl": "",
+      "docs/make.jl": "",
+    });
+    assert.deepEqual(sourceTree(dir, ["src", "ext"]), {
+      package: "Example",
+      root: dir,
+      entry: join(dir, "src", "Example.jl"),
+      files: ["src/Example.jl", "src/util/a.jl", "src/util/b.jl", "ext/ExampleExt.jl"].map(file => join(dir, file)),
+    });
+  });
+
+  it("searches the whole directory when none of the given directories exist", () => {
+    writeFiles(dir, { "run.jl": "", "scripts/plot.jl": "", "data.csv": "" });
+    assert.deepEqual(sourceTree(dir, ["src", "ext"]), {
+      package: null,
+      root: dir,
+      entry: null,
+      files: [join(dir, "run.jl"), join(dir, "scripts", "plot.jl")],
+    });
+  });
+
+  it("has no entry when the package has no file of its name", () => {
+    writeFiles(dir, { "Project.toml": PROJECT, "src/Other.jl": "" });
+    const tree = sourceTree(dir, ["src"]);
+    assert.equal(tree.package, "Example");
+    assert.equal(tree.entry, null);
+    assert.deepEqual(tree.files, [join(dir, "src", "Other.jl")]);
+  });
+
+  it("skips hidden and build directories", () => {
+    writeFiles(dir, {
+      "a.jl": "",
+      ".git/hook.jl": "",
+      ".hidden/b.jl": "",
+      "node_modules/pkg/c.jl": "",
+      "build/d.jl": "",
+      "dist/e.jl": "",
+    });
+    assert.deepEqual(sourceTree(dir, []).files, [join(dir, "a.jl")]);
+  });
+
+  it("stops at the maximum directory depth", () => {
+    const levels = Array.from({ length: 9 }, (_, i) => `d${i + 1}`);
+    writeFiles(dir, {
+      [join(...levels.slice(0, 8), "deep.jl")]: "",
+      [join(...levels, "too_deep.jl")]: "",
+    });
+    assert.deepEqual(sourceTree(dir, []).files, [join(dir, ...levels.slice(0, 8), "deep.jl")]);
+  });
+});
+
+describe("devDependencies", () => {
+  let dir: string;
+  beforeEach(() => { dir = mkdtempSync(join(tmpdir(), "juliadoc-outline-")); });
+  afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("lists the manifest packages tracked by an existing path", () => {
+    const other = join(dir, "elsewhere", "Other");
+    writeFiles(dir, {
+      "Project.toml": PROJECT,
+      "Manifest.toml": [
+        'manifest_format = "2.0"',
+        "[[deps.Local]]",
+        'uuid = "00000000-0000-0000-0000-000000000001"',
+        'path = "dev/Local"',
+        "[[deps.Other]]",
+        'uuid = "00000000-0000-0000-0000-000000000002"',
+        `path = ${JSON.stringify(other)}`,
+        "[[deps.Missing]]",
+        'uuid = "00000000-0000-0000-0000-000000000003"',
+        'path = "dev/Missing"',
+        "[[deps.Registered]]",
+        'uuid = "00000000-0000-0000-0000-000000000004"',
+        'version = "1.0.0"',
+        "",
+      ].join("\n"),
+      "dev/Local/Project.toml": "",
+      "elsewhere/Other/Project.toml": "",
+    });
+    assert.deepEqual(devDependencies(dir), [
+      { name: "Local", path: join(dir, "dev", "Local") },
+      { name: "Other", path: other },
+    ]);
+  });
+
+  it("finds none without a manifest", () => {
+    writeFiles(dir, { "Project.toml": PROJECT });
+    assert.deepEqual(devDependencies(dir), []);
+  });
+});
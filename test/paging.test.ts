@@ -0,0 +1,127 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ResultPager, argumentsKey } from "../src/paging.js";
+
+type Listing = { names: string[]; module: string };
+
+const paging = {
+  field: "names" as const,
+  format: (result: Listing) => `${result.module}\n` + result.names.map(name => `- ${name}`).join("\n"),
+};
+
+function listing(count: number): { structured: Listing; text: string } {
+  const structured = { module: "Base", names: Array.from({ length: count }, (_, i) => `name_${String(i).padStart(3, "0")}`) };
+  return { structured, text: paging.format(structured) };
+}
+
+function lines(count: number): string {
+  return Array.from({ length: count }, (_, i) => `line ${i} `.padEnd(50, "x")).join("\n");
+}
+
+describe("argumentsKey", () => {
+  it("ignores the order of arguments", () => {
+    assert.equal(argumentsKey({ a: 1, b: "x" }), argumentsKey({ b: "x", a: 1 }));
+    assert.notEqual(argumentsKey({ a: 1 }), argumentsKey({ a: 2 }));
+  });
+});
+
+describe("ResultPager", () => {
+  it("returns results that fit unchanged", () => {
+    const result = listing(3);
+    const page = new ResultPager().page("list", {}, result, 10_000, 0, paging);
+    assert.deepEqual(page, result);
+  });
+
+  it("pages lists by whole items until the last page", () => {
+    const pager = new ResultPager();
+    const args = { path: "Base" };
+    const result = listing(200);
+    const seen: string[] = [];
+    let offset = 0;
+    let id: string | undefined;
+    for (let i = 0; i < 50; i++) {
+      const page = pager.page("list", args, result, 1000, offset, paging, id);
+      const info = page.structured.page!;
+      assert.equal(info.unit, "items");
+      assert.equal(info.truncated, false);
+      assert.equal(info.offset, offset);
+      assert.equal(info.total, 200);
+      assert.equal(page.structured.module, "Base");
+      assert.equal(page.structured.names.length, info.count);
+      assert.ok(page.text.length <= 1000);
+      seen.push(...page.structured.names);
+      if (info.next_cursor === null) {
+        assert.match(page.text, /this is the last page\]$/);
+        break;
+      }
+      assert.match(page.text, new RegExp(`Showing names ${offset + 1}-${offset + info.count} of 200`));
+      const resumed = pager.resume("list", args, info.next_cursor);
+      assert.ok(resumed.stored);
+      offset = resumed.cursor.offset;
+      id = resumed.cursor.id;
+    }
+    assert.deepEqual(seen, result.structured.names);
+  });
+
+  it("cuts the fields repeated on every item page", () => {
+    const result = listing(50);
+    const structured = { ...result.structured, module: "x".repeat(5000) };
+    const page = new ResultPager().page("list", {}, { structured, text: paging.format(structured) }, 2000, 0, paging);
+    const info = page.structured.page!;
+    assert.equal(info.truncated, true);
+    assert.ok(info.count > 0);
+    assert.ok(page.structured.module.length < 1000);
+    assert.ok(page.text.length <= 2000);
+  });
+
+  it("always shows at least one item", () => {
+    const page = new ResultPager().page("list", {}, listing(5), 1, 0, paging);
+    assert.equal(page.structured.page!.count, 1);
+  });
+
+  it("pages text by whole lines", () => {
+    const text = lines(100);
+    const page = new ResultPager().page("doc", {}, { structured: { text }, text }, 1000, 0, undefined);
+    const info = page.structured.page!;
+    assert.equal(info.unit, "chars");
+    assert.equal(info.field, null);
+    assert.equal(text[info.count - 1], "\n");
+    assert.ok(info.next_cursor);
+  });
+
+  it("cuts the structured content of text pages to the budget", () => {
+    const text = lines(100);
+    const result = { structured: { text, refs: Array(500).fill("ref"), count: 500 }, text };
+    const page = new ResultPager().page("doc", {}, result, 2000, 0, undefined);
+    assert.equal(page.structured.page!.truncated, true);
+    assert.equal(page.structured.count, 500);
+    assert.ok(page.structured.text.length < text.length);
+    assert.ok(page.structured.refs.length < 500);
+    const { page: _, ...structured } = page.structured;
+    assert.ok(JSON.stringify(structured).length <= 2000);
+  });
+
+  it("keeps structured content that fits", () => {
+    const text = lines(100);
+    const page = new ResultPager().page("doc", {}, { structured: { lines: 100 }, text }, 1000, 0, undefined);
+    assert.equal(page.structured.page!.truncated, false);
+    assert.equal(page.structured.lines, 100);
+  });
+
+  it("rejects cursors for other calls and malformed cursors", () => {
+    const pager = new ResultPager();
+    const page = pager.page("list", { path: "Base" }, listing(200), 1000, 0, paging);
+    const cursor = page.structured.page!.next_cursor!;
+    assert.throws(() => pager.resume("list", { path: "Core" }, cursor), /belongs to a different call/);
+    assert.throws(() => pager.resume("other", { path: "Base" }, cursor), /belongs to a different call/);
+    assert.throws(() => pager.resume("list", { path: "Base" }, "not a cursor"), /Invalid cursor/);
+  });
+
+  it("rejects offsets past the end of the result", () => {
+    const pager = new ResultPager();
+    assert.throws(() => pager.page("list", {}, listing(9), 1000, 9, paging), /Invalid cursor/);
+    assert.throws(() => pager.page("list", {}, listing(9), 1000, 20, paging), /Invalid cursor/);
+    const text = lines(10);
+    assert.throws(() => pager.page("doc", {}, { structured: {}, text }, 1000, text.length, undefined), /Invalid cursor/);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { satisfiesCompat } from "../src/project.js";
+
+// Lowest version in range, last version in range and first version past it
+function assertRange(compat: string, lower: string, last: string, above: string, below?: string): void {
+  assert.ok(satisfiesCompat(lower, compat), `${lower} should satisfy ${compat}`);
+  assert.ok(satisfiesCompat(last, compat), `${last} should satisfy ${compat}`);
+  assert.ok(!satisfiesCompat(above, compat), `${above} should not satisfy ${compat}`);
+  if (below) assert.ok(!satisfiesCompat(below, compat), `${below} should not satisfy ${compat}`);
+}
+
+describe("satisfiesCompat", () => {
+  it("treats plain versions as caret specifiers", () => {
+    assertRange("1.2.3", "1.2.3", "1.99.0", "2.0.0", "1.2.2");
+    assertRange("1.2", "1.2.0", "1.9.9", "2.0.0", "1.1.9");
+    assertRange("1", "1.0.0", "1.99.99", "2.0.0", "0.9.9");
+    assertRange("^1.2.3", "1.2.3", "1.99.0", "2.0.0", "1.2.2");
+  });
+
+  it("keeps the first non-zero component of caret specifiers", () => {
+    assertRange("0.2.3", "0.2.3", "0.2.99", "0.3.0", "0.2.2");
+    assertRange("0.0.3", "0.0.3", "0.0.3", "0.0.4", "0.0.2");
+    assertRange("0.0", "0.0.0", "0.0.99", "0.1.0");
+    assertRange("0", "0.0.0", "0.99.0", "1.0.0");
+  });
+
+  it("lets tilde specifiers change only the patch", () => {
+    assertRange("~1.2.3", "1.2.3", "1.2.99", "1.3.0", "1.2.2");
+    assertRange("~1.2", "1.2.0", "1.2.99", "1.3.0");
+    assertRange("~1", "1.0.0", "1.99.0", "2.0.0");
+    assertRange("~0.2.3", "0.2.3", "0.2.99", "0.3.0");
+  });
+
+  it("pins ~0.0.x to a single patch release", () => {
+    assertRange("~0.0.3", "0.0.3", "0.0.3", "0.0.4", "0.0.2");
+    assertRange("~0.0", "0.0.0", "0.0.99", "0.1.0");
+  });
+
+  it("supports inequalities, equality and hyphen ranges", () => {
+    assert.ok(satisfiesCompat("99.0.0", ">= 1.2"));
+    assert.ok(satisfiesCompat("1.2.0", "≥1.2"));
+    assert.ok(!satisfiesCompat("1.1.9", ">= 1.2"));
+    assertRange("< 1.2", "0.0.0", "1.1.99", "1.2.0");
+    assertRange("= 1.2.3", "1.2.3", "1.2.3", "1.2.4", "1.2.2");
+    assertRange("1.2 - 1.4", "1.2.0", "1.4.99", "1.5.0", "1.1.9");
+    assertRange("1.2.0 - 1.4.2", "1.2.0", "1.4.2", "1.4.3");
+  });
+
+  it("accepts any range of a union", () => {
+    assert.ok(satisfiesCompat("0.9.5", "1.2, ^0.9"));
+    assert.ok(satisfiesCompat("1.5.0", "1.2, ^0.9"));
+    assert.ok(!satisfiesCompat("0.10.0", "1.2, ^0.9"));
+  });
+
+  it("ignores prerelease and build suffixes", () => {
+    assert.ok(satisfiesCompat("v1.10.0-rc1", "1.10"));
+    assert.ok(satisfiesCompat("1.6.7+build", "~1.6"));
+  });
+
+  it("rejects invalid specifiers and versions", () => {
+    assert.throws(() => satisfiesCompat("1.0.0", "1.x"), /Invalid compat specifier '1.x'/);
+    assert.throws(() => satisfiesCompat("1.0.0", ">>1"), /Invalid compat specifier/);
+    assert.throws(() => satisfiesCompat("latest", "1"), /Invalid version 'latest'/);
+  });
+});
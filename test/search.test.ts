@@ -0,0 +1,105 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DocEntry, SearchIndex, loadIndex, saveIndex } from "../src/search.js";
+
+function entry(pkg: string, name: string, docstring: string): DocEntry {
+  return { package: pkg, module: pkg, name, kind: "function", docstring };
+}
+
+const ENTRIES = [
+  entry("LinearAlgebra", "cholesky", "```\ncholesky(A)\n```\n\nCompute the Cholesky factorization of a dense symmetric positive definite matrix A."),
+  entry("LinearAlgebra", "lu", "Compute the LU factorization of A, as used to solve linear systems."),
+  entry("Base", "sort", "Sort the vector v in place.\n\nSee also sortperm for the permutation that sorts a vector."),
+  entry("Base", "sortperm", "Return a permutation vector that puts v in sorted order."),
+  entry("Statistics", "mean", "Compute the mean of all elements in a collection."),
+  entry("Base", "isSorted", "Test whether a collection is in sorted order."),
+];
+
+describe("SearchIndex", () => {
+  const index = new SearchIndex(ENTRIES, "2026-01-01T00:00:00Z");
+  const names = (query: string, packages?: string[]) =>
+    index.search(query, { limit: 10, packages }).hits.map(hit => hit.entry.name);
+
+  it("ranks name matches above mentions in the docstring", () => {
+    assert.deepEqual(names("sortperm").slice(0, 2), ["sortperm", "sort"]);
+    assert.equal(names("factorization")[0], "cholesky");
+  });
+
+  it("counts prefixes of indexed terms", () => {
+    assert.deepEqual(names("chol"), ["cholesky"]);
+    // Too short to be expanded
+    assert.deepEqual(names("ch"), []);
+  });
+
+  it("doubles the score of an exact name match", () => {
+    const [exact, other] = index.search("sort", { limit: 10 }).hits;
+    assert.equal(exact.entry.name, "sort");
+    assert.ok(exact.score > other.score * 1.5);
+  });
+
+  it("splits camel case names into words", () => {
+    assert.ok(names("sorted").includes("isSorted"));
+  });
+
+  it("filters by package and reports the total before the limit", () => {
+    assert.deepEqual(names("compute", ["Statistics"]), ["mean"]);
+    const { hits, total } = index.search("compute", { limit: 1 });
+    assert.equal(hits.length, 1);
+    assert.equal(total, 3);
+  });
+
+  it("returns nothing for unknown terms", () => {
+    assert.deepEqual(index.search("quaternion", { limit: 10 }), { hits: [], total: 0 });
+  });
+
+  it("uses the line mentioning most query terms as snippet", () => {
+    const [hit] = index.search("cholesky matrix", { limit: 1 }).hits;
+    assert.equal(hit.snippet, "Compute the Cholesky factorization of a dense symmetric positive definite matrix A.");
+    const [sortHit] = index.search("permutation sortperm", { limit: 10 }).hits.filter(h => h.entry.name === "sort");
+    assert.equal(sortHit.snippet, "See also sortperm for the permutation that sorts a vector.");
+  });
+});
+
+describe("loadIndex and saveIndex", () => {
+  it("round-trip an index through its cache file", () => {
+    const dir = mkdtempSync(join(tmpdir(), "juliadoc-search-"));
+    try {
+      const file = join(dir, "nested", "index.json");
+      saveIndex(file, new SearchIndex(ENTRIES, "2026-01-01T00:00:00Z", ["Broken"]));
+      const loaded = loadIndex(file)!;
+      assert.equal(loaded.builtAt, "2026-01-01T00:00:00Z");
+      assert.deepEqual(loaded.skipped, ["Broken"]);
+      assert.deepEqual(loaded.entries, ENTRIES);
+      assert.equal(loaded.search("chol", { limit: 1 }).hits[0].entry.name, "cholesky");
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("carries on when the cache file cannot be written", () => {
+    const dir = mkdtempSync(join(tmpdir(), "juliadoc-search-"));
+    try {
+      // A directory cannot be created under a file
+      writeFileSync(join(dir, "file"), "");
+      const file = join(dir, "file", "index.json");
+      assert.doesNotThrow(() => saveIndex(file, new SearchIndex(ENTRIES, "2026-01-01T00:00:00Z")));
+      assert.equal(loadIndex(file), null);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("ignores missing and unreadable files", () => {
+    const dir = mkdtempSync(join(tmpdir(), "juliadoc-search-"));
+    try {
+      assert.equal(loadIndex(join(dir, "missing.json")), null);
+      writeFileSync(join(dir, "broken.json"), "{");
+      assert.equal(loadIndex(join(dir, "broken.json")), null);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FrameReader, loadingProgress } from "../src/worker.js";
+
+type Frame = [number, string, string, string];
+
+// A response frame as the worker script writes it
+function frame(id: number, status: string, stdout: string, stderr: string): Buffer {
+  const out = Buffer.from(stdout);
+  const err = Buffer.from(stderr);
+  return Buffer.concat([Buffer.from(`${id} ${status} ${out.length} ${err.length}\n`), out, err]);
+}
+
+function reader(): { frames: Frame[]; reader: FrameReader } {
+  const frames: Frame[] = [];
+  return { frames, reader: new FrameReader((...parts) => frames.push(parts)) };
+}
+
+describe("FrameReader", () => {
+  it("reads a frame from a single chunk", () => {
+    const { frames, reader: r } = reader();
+    r.push(frame(1, "ok", "JULIADOC_RESULT:{}\n", "┌ Warning: x\n└ @ Main\n"));
+    assert.deepEqual(frames, [[1, "ok", "JULIADOC_RESULT:{}\n", "┌ Warning: x\n└ @ Main\n"]]);
+  });
+
+  it("reads several frames from one chunk", () => {
+    const { frames, reader: r } = reader();
+    r.push(Buffer.concat([frame(0, "ready", "", ""), frame(1, "ok", "a", ""), frame(2, "error", "", "b")]));
+    assert.deepEqual(frames, [[0, "ready", "", ""], [1, "ok", "a", ""], [2, "error", "", "b"]]);
+  });
+
+  it("reassembles frames split across chunks at every position", () => {
+    const data = Buffer.concat([frame(7, "ok", "stdout text\nmore", "stderr"), frame(8, "ok", "", "")]);
+    for (let cut = 1; cut < data.length; cut++) {
+      const { frames, reader: r } = reader();
+      r.push(data.subarray(0, cut));
+      r.push(data.subarray(cut));
+      assert.deepEqual(frames, [[7, "ok", "stdout text\nmore", "stderr"], [8, "ok", "", ""]], `cut at ${cut}`);
+    }
+  });
+
+  it("counts lengths in bytes, also when a character is split between chunks", () => {
+    const data = frame(3, "ok", "∘ and π", "ü");
+    const { frames, reader: r } = reader();
+    for (const byte of data) r.push(Buffer.from([byte]));
+    assert.deepEqual(frames, [[3, "ok", "∘ and π", "ü"]]);
+  });
+
+  it("holds a partial trailing frame until the rest arrives", () => {
+    const { frames, reader: r } = reader();
+    const second = frame(2, "ok", "second", "");
+    r.push(Buffer.concat([frame(1, "ok", "first", ""), second.subarray(0, 8)]));
+    assert.deepEqual(frames, [[1, "ok", "first", ""]]);
+    r.push(second.subarray(8));
+    assert.deepEqual(frames, [[1, "ok", "first", ""], [2, "ok", "second", ""]]);
+  });
+});
+
+describe("loadingProgress", () => {
+  it("reports precompilation, downloads and installs", () => {
+    assert.equal(loadingProgress("[ Info: Precompiling DataFrames [a93c6f00-e57d-5684-b7b6-d8193f3e46c0]\n"),
+      "Precompiling DataFrames [a93c6f00-e57d-5684-b7b6-d8193f3e46c0]");
+    assert.equal(loadingProgress("Precompiling project..."), "Precompiling project...");
+    assert.equal(loadingProgress("  \x1b[32m  ✓ \x1b[39mDataFrames"), "✓ DataFrames");
+    assert.equal(loadingProgress("  1234.5 ms  ✓ CSV"), "1234.5 ms  ✓ CSV");
+    assert.equal(loadingProgress("  ◐ Plots"), "◐ Plots");
+    assert.equal(loadingProgress("  42 dependencies successfully precompiled in 61 seconds"),
+      "42 dependencies successfully precompiled in 61 seconds");
+    assert.equal(loadingProgress("  Downloading artifact: OpenBLAS"), "Downloading artifact: OpenBLAS");
+    assert.equal(loadingProgress("   Installed package Example"), "Installed package Example");
+  });
+
+  it("ignores everything else", () => {
+    assert.equal(loadingProgress("┌ Warning: Foo is deprecated"), null);
+    assert.equal(loadingProgress("[ Info: Loading data"), null);
+    assert.equal(loadingProgress("precompiling was skipped"), null);
+    assert.equal(loadingProgress(""), null);
+  });
+});